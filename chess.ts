@@ -1,3 +1,5 @@
+import { FogOfWarRules, StandardRules, variantRules, VariantRules } from './variants.js'
+
 export enum ChessPieceType
 {
 	King,
@@ -5,7 +7,16 @@ export enum ChessPieceType
 	Rook,
 	Bishop,
 	Knight,
-	Pawn
+	Pawn,
+
+	// Fairy pieces, which move like a bishop, a rook or a queen,
+	// or like a knight.
+	Archbishop,
+	Chancellor,
+	Amazon,
+
+	// The neutral blocker of Duck chess.
+	Duck
 }
 
 export enum Colour
@@ -20,12 +31,19 @@ export enum Colour
 export class ChessPiece
 {
 	type: ChessPieceType
+
+	// Null for the duck, which belongs to neither side.
 	colour: Colour
 
+	// Whether the piece was a pawn that promoted. Promoted pieces turn
+	// back into pawns when captured in Crazyhouse.
+	promoted: boolean
+
 	constructor(type: ChessPieceType, colour: Colour)
 	{
 		this.type = type
 		this.colour = colour
+		this.promoted = false
 	}
 
 	/**
@@ -73,6 +91,26 @@ export class ChessPiece
 			{
 				return 1
 			}
+
+			case ChessPieceType.Archbishop:
+			{
+				return 7
+			}
+
+			case ChessPieceType.Chancellor:
+			{
+				return 8
+			}
+
+			case ChessPieceType.Amazon:
+			{
+				return 12
+			}
+
+			case ChessPieceType.Duck:
+			{
+				return 0
+			}
 		}
 	}
 
@@ -112,6 +150,26 @@ export class ChessPiece
 			{
 				return this.colour == Colour.White ? 'P' : 'p'
 			}
+
+			case ChessPieceType.Archbishop:
+			{
+				return this.colour == Colour.White ? 'A' : 'a'
+			}
+
+			case ChessPieceType.Chancellor:
+			{
+				return this.colour == Colour.White ? 'C' : 'c'
+			}
+
+			case ChessPieceType.Amazon:
+			{
+				return this.colour == Colour.White ? 'M' : 'm'
+			}
+
+			case ChessPieceType.Duck:
+			{
+				return '*'
+			}
 		}
 	}
 
@@ -151,7 +209,85 @@ export class ChessPiece
 			{
 				return this.colour == Colour.White ? '♟' : '♙'
 			}
+
+			// Unicode has no symbols for the fairy pieces.
+
+			case ChessPieceType.Archbishop:
+			case ChessPieceType.Chancellor:
+			case ChessPieceType.Amazon:
+			{
+				return this.toString()
+			}
+
+			case ChessPieceType.Duck:
+			{
+				return '◆'
+			}
+		}
+	}
+
+	/**
+	 * Creates a piece from its character, as returned by `toString()`.
+	 * Returns null if the character does not represent a piece.
+	 */
+	static fromString(str: string)
+	{
+		const colour = str == str.toUpperCase() ? Colour.White : Colour.Black
+
+		switch (str.toLowerCase())
+		{
+			case 'k':
+			{
+				return new ChessPiece(ChessPieceType.King, colour)
+			}
+
+			case 'q':
+			{
+				return new ChessPiece(ChessPieceType.Queen, colour)
+			}
+
+			case 'r':
+			{
+				return new ChessPiece(ChessPieceType.Rook, colour)
+			}
+
+			case 'b':
+			{
+				return new ChessPiece(ChessPieceType.Bishop, colour)
+			}
+
+			case 'n':
+			{
+				return new ChessPiece(ChessPieceType.Knight, colour)
+			}
+
+			case 'p':
+			{
+				return new ChessPiece(ChessPieceType.Pawn, colour)
+			}
+
+			case 'a':
+			{
+				return new ChessPiece(ChessPieceType.Archbishop, colour)
+			}
+
+			case 'c':
+			{
+				return new ChessPiece(ChessPieceType.Chancellor, colour)
+			}
+
+			case 'm':
+			{
+				return new ChessPiece(ChessPieceType.Amazon, colour)
+			}
+
+			case '*':
+			{
+				return new ChessPiece(ChessPieceType.Duck, null)
+			}
 		}
+
+		return null
 	}
 }
 
@@ -201,16 +337,69 @@ export class Square
 
 	/**
 	 * Creates a square from a human readable string representation.
+	 * Ranks past the ninth take two digits, like j10.
 	 */
 	static fromString(str: string)
 	{
 		const x = str.charCodeAt(0) - 'a'.charCodeAt(0)
-		const y = str.charCodeAt(1) - '1'.charCodeAt(0)
+		const y = +str.slice(1) - 1
 
 		return new Square(x, y)
 	}
 }
 
+/**
+ * The reasons a move can be rejected for.
+ */
+export enum IllegalMoveReason
+{
+	BadSyntax,
+	NoPiece,
+	WrongColour,
+	NotReachable,
+	LeavesKingInCheck,
+	PromotionMissing,
+	CaptureRequired,
+	GivesCheck,
+	DuckMissing
+}
+
+/**
+ * Thrown when a move is malformed or cannot be played in the position.
+ */
+export class IllegalMoveError extends Error
+{
+	reason: IllegalMoveReason
+	move: string
+
+	constructor(reason: IllegalMoveReason, move: string, message: string)
+	{
+		super(`Illegal move ${ move }: ${ message }`)
+
+		this.name = 'IllegalMoveError'
+		this.reason = reason
+		this.move = move
+	}
+}
+
+/**
+ * Matches a square, like e4 or j10.
+ * Boards have at most 14 files and 16 ranks.
+ */
+const SQUARE_PATTERN = '[a-n](?:1[0-6]|[1-9])'
+
+/**
+ * Matches a UCI drop, like P@e4.
+ */
+const UCI_DROP_REGEX = new RegExp(`^[QRBNP]@(${ SQUARE_PATTERN })$`)
+
+/**
+ * Matches a UCI move, like e2e4 or e7e8q, which may be followed by the
+ * move of the duck, like e2e4,e4e5.
+ */
+const UCI_MOVE_REGEX = new RegExp(`^(${ SQUARE_PATTERN })(${ SQUARE_PATTERN })([qrbnkacm]?)`
+	+ `(?:,(${ SQUARE_PATTERN })(${ SQUARE_PATTERN }))?$`)
+
 /**
  * Represents a move made by a player.
  */
@@ -220,18 +409,55 @@ export class Move
 	to: Square
 	promotion?: ChessPieceType
 
-	constructor(from: Square, to: Square, promotion?: ChessPieceType)
+	// The piece dropped from the pocket in Crazyhouse.
+	// `from` is the same square as `to` for drops.
+	drop?: ChessPieceType
+
+	// The square the duck moves to after the piece in Duck chess.
+	duck?: Square
+
+	// Details about the move, filled in by `ChessBoard.legalMoves()`.
+	capture: boolean
+	castle: boolean
+	enPassant: boolean
+
+	constructor(from: Square, to: Square, promotion?: ChessPieceType, duck?: Square)
 	{
 		this.from = from
 		this.to = to
 		this.promotion = promotion
+		this.duck = duck
+
+		this.capture = false
+		this.castle = false
+		this.enPassant = false
+	}
+
+	/**
+	 * Creates a move that drops a piece from the pocket onto a square.
+	 */
+	static drop(type: ChessPieceType, to: Square)
+	{
+		const move = new Move(to, to)
+
+		move.drop = type
+
+		return move
 	}
 
 	/**
 	 * Returns a UCI string representation of the move.
+	 * Drops are written with the piece letter, like P@e4. The duck is
+	 * written as a second move from the square the piece moved to,
+	 * like e2e4,e4e5.
 	 */
 	toString()
 	{
+		if (this.drop != null)
+		{
+			return new ChessPiece(this.drop, Colour.White).toString() + '@' + this.to.toString()
+		}
+
 		let str = this.from.toString() + this.to.toString()
 
 		if (this.promotion != null)
@@ -261,176 +487,974 @@ export class Move
 					str += 'n'
 					break
 				}
-			}
-		}
-
-		return str
-	}
-}
-
-/**
- * Class that represents a chess board.
- * Holds the pieces, the current turn, and legal stuff.
- */
-export class ChessBoard
-{
-	board: ChessPiece[][]
-
-	whiteCastleShort: boolean
-	whiteCastleLong: boolean
-
-	blackCastleShort: boolean
-	blackCastleLong: boolean
-
-	whiteEnPassant: boolean[]
-	blackEnPassant: boolean[]
-
-	turn: Colour
-	turnNumber: number
-
-	moves: Move[]
-	fiftyMoveRule: number
-	fiftyMoveRuleReached: boolean
-	history: Map<String, number>
-	threefoldRepetition: boolean
 
-	constructor()
-	{
-		this.board = []
+				// Only in Antichess.
+				case ChessPieceType.King:
+				{
+					str += 'k'
+					break
+				}
 
-		this.whiteCastleShort = true
-		this.whiteCastleLong = true
+				case ChessPieceType.Archbishop:
+				{
+					str += 'a'
+					break
+				}
 
-		this.blackCastleShort = true
-		this.blackCastleLong = true
+				case ChessPieceType.Chancellor:
+				{
+					str += 'c'
+					break
+				}
 
-		this.whiteEnPassant = Array(8).fill(false)
-		this.blackEnPassant = Array(8).fill(false)
+				case ChessPieceType.Amazon:
+				{
+					str += 'm'
+					break
+				}
+			}
+		}
 
-		this.turn = Colour.White
-		this.turnNumber = 0
+		if (this.duck != null)
+		{
+			str += ',' + this.to.toString() + this.duck.toString()
+		}
 
-		this.moves = []
-		this.fiftyMoveRule = 0
-		this.fiftyMoveRuleReached = false
-		this.history = new Map()
-		this.threefoldRepetition = false
+		return str
 	}
 
 	/**
-	 * Returns the board state as a UCI string of moves.
+	 * Creates a move from a UCI string representation.
+	 * Throws an `IllegalMoveError` if the string is not a UCI move.
 	 */
-	boardStateUCI()
+	static fromString(str: string)
 	{
-		return this.moves.map(move => move.toString()).join(' ')
-	}
+		const dropMatch = str.match(UCI_DROP_REGEX)
 
-	/**
-	 * Returns a hash of the board state.
-	 */
-	boardStateHash()
-	{
-		const {
-			board,
-			whiteCastleShort,
-			whiteCastleLong,
-			blackCastleShort,
-			blackCastleLong,
-			whiteEnPassant,
-			blackEnPassant,
-			turn
-		} = this
-
-		return JSON.stringify({
-			board,
-			whiteCastleShort,
-			whiteCastleLong,
-			blackCastleShort,
-			blackCastleLong,
-			whiteEnPassant,
-			blackEnPassant,
-			turn
-		})
-	}
+		if (dropMatch != null)
+		{
+			return Move.drop(ChessPiece.fromString(str[0]).type, Square.fromString(dropMatch[1]))
+		}
 
-	/**
-	 * Returns the piece at the given square.
-	 */
-	pieceAt(x: number, y: number)
-	{
-		return this.board[y][x]
-	}
+		const match = str.match(UCI_MOVE_REGEX)
 
-	/**
-	 * Sets the piece at the given square.
-	 */
-	setAt(x: number, y: number, piece: ChessPiece)
-	{
-		this.board[y][x] = piece
-	}
+		if (match == null)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.BadSyntax, str,
+				'expected a UCI move like e2e4, e7e8q, P@e4 or e2e4,e4e5')
+		}
 
-	/**
-	 * Decodes a human readable chess coordinate to square indices.
-	 */
-	decodeCoord(coord: string)
-	{
-		const x = coord.charCodeAt(0) - 'a'.charCodeAt(0)
-		const y = coord.charCodeAt(1) - '1'.charCodeAt(0)
+		const [ , fromCoord, toCoord, promotionChar, duckFrom, duckTo ] = match
 
-		return [ x, y ]
-	}
+		const from = Square.fromString(fromCoord)
+		const to = Square.fromString(toCoord)
 
-	/**
-	 * Returns the colour of the given square.
-	 */
-	squareColour(x: number, y: number)
-	{
-		if ((x + y) % 2 == 0)
+		// The duck is picked up where the piece landed.
+
+		if (duckFrom != null && duckFrom != toCoord)
 		{
-			return Colour.Black
+			throw new IllegalMoveError(IllegalMoveReason.BadSyntax, str,
+				`the duck move has to start on ${ to }`)
 		}
 
-		return Colour.White
-	}
-
-	/**
-	 * Sets a piece at a given human readable chess coordinate.
-	 */
-	set(coord: string, pieceType: ChessPieceType, colour: Colour)
-	{
-		const [ x, y ] = this.decodeCoord(coord)
-
-		this.board[y][x] = new ChessPiece(pieceType, colour)
-	}
+		const duck = duckTo == null ? undefined : Square.fromString(duckTo)
 
-	/**
-	 * Counts the number of pieces on the board.
-	 * Useful for checking if a piece has been captured,
-	 * which is used for determining if the fifty move rule applies.
-	 */
-	countPieces()
-	{
-		let count = 0
+		let promotion: ChessPieceType
 
-		for (let y = 0; y < 8; y++)
+		switch (promotionChar)
 		{
-			for (let x = 0; x < 8; x++)
+			case 'q':
 			{
-				if (this.board[y][x] != null)
-				{
-					count++
-				}
+				promotion = ChessPieceType.Queen
+				break
 			}
-		}
 
-		return count
-	}
+			case 'r':
+			{
+				promotion = ChessPieceType.Rook
+				break
+			}
 
-	/**
-	 * Computes the score of the board.
-	 */
-	computeScore()
-	{
+			case 'b':
+			{
+				promotion = ChessPieceType.Bishop
+				break
+			}
+
+			case 'n':
+			{
+				promotion = ChessPieceType.Knight
+				break
+			}
+
+			case 'k':
+			{
+				promotion = ChessPieceType.King
+				break
+			}
+
+			case 'a':
+			{
+				promotion = ChessPieceType.Archbishop
+				break
+			}
+
+			case 'c':
+			{
+				promotion = ChessPieceType.Chancellor
+				break
+			}
+
+			case 'm':
+			{
+				promotion = ChessPieceType.Amazon
+				break
+			}
+		}
+
+		return new Move(from, to, promotion, duck)
+	}
+}
+
+/**
+ * The ways a game can end.
+ * The values are written to log.jsonl, so they are strings.
+ */
+export enum Termination
+{
+	Checkmate = 'checkmate',
+	Stalemate = 'stalemate',
+	InsufficientMaterial = 'insufficient material',
+	FiftyMoveRule = 'fifty move rule',
+	ThreefoldRepetition = 'threefold repetition',
+	FivefoldRepetition = 'fivefold repetition',
+	SeventyFiveMoveRule = 'seventy-five move rule',
+
+	// Antichess, where losing all pieces wins.
+	AllPiecesLost = 'losing all pieces',
+
+	ThreeChecks = 'three checks',
+	KingOfTheHill = 'king reaching the centre',
+	Explosion = 'exploding the king',
+
+	// Horde, where Black has to capture every white piece.
+	AllPiecesCaptured = 'capturing every piece',
+
+	// Racing Kings. Both kings get there if Black equalises.
+	EighthRank = 'king reaching the eighth rank',
+	BothEighthRank = 'both kings reaching the eighth rank',
+
+	// Fog of war and Duck chess, where there is no check.
+	KingCaptured = 'capturing the king',
+
+	// Never produced by the board itself.
+	Adjudication = 'adjudication',
+	Timeout = 'timeout'
+}
+
+/**
+ * The result of a finished game.
+ * `winner` is null when the game is drawn.
+ */
+export interface GameOutcome
+{
+	winner: Colour | null
+	termination: Termination
+}
+
+/**
+ * The rules the board is played by.
+ * The values are the `UCI_Variant` names of engines that play variants,
+ * such as Fairy-Stockfish.
+ */
+export enum Variant
+{
+	Standard = 'chess',
+
+	// Captures are compulsory, the king is an ordinary piece without
+	// check or castling, and losing all pieces or being stalemated wins.
+	Antichess = 'antichess',
+
+	// Giving check three times wins.
+	ThreeCheck = '3check',
+
+	// Bringing the king to d4, e4, d5 or e5 wins.
+	KingOfTheHill = 'kingofthehill',
+
+	// Captures explode every piece but pawns around the capture square,
+	// and blowing up the enemy king wins.
+	Atomic = 'atomic',
+
+	// Captured pieces go into the capturing side's pocket, and can be
+	// dropped back onto the board instead of moving.
+	Crazyhouse = 'crazyhouse',
+
+	// White has 36 pawns and no king, and Black wins by capturing them all.
+	Horde = 'horde',
+
+	// Checks are not allowed, and the first king on the eighth rank wins.
+	RacingKings = 'racingkings',
+
+	// Each side only sees the squares its pieces can move to, there is
+	// no check, and capturing the enemy king wins.
+	FogOfWar = 'fogofwar',
+
+	// After moving a piece, the player also moves a neutral duck that
+	// blocks every piece. There is no check, capturing the enemy king
+	// wins, and so does being stalemated.
+	Duck = 'duck',
+
+	// Played on a 10x8 board, with an archbishop (bishop and knight)
+	// and a chancellor (rook and knight) for each side.
+	Capablanca = 'capablanca',
+
+	// Capablanca chess with the back rank rearranged.
+	Gothic = 'gothic'
+}
+
+/**
+ * When to claim a draw by threefold repetition or the fifty move rule.
+ * Fivefold repetition and the seventy-five move rule end the game
+ * automatically under every policy.
+ */
+export enum DrawPolicy
+{
+	// Never claim, as under FIDE rules when nobody asks for the draw.
+	Automatic = 'automatic',
+
+	// Claim as soon as a draw can be claimed.
+	Claim = 'claim'
+}
+
+/**
+ * Decides whether the side to move claims the draw it is entitled to.
+ */
+export type DrawClaimCallback = (board: ChessBoard, termination: Termination) => boolean
+
+/**
+ * Returns a human readable description of an outcome,
+ * e.g. 'Black wins by checkmate' or 'Draw by stalemate'.
+ */
+export const describeOutcome = (outcome: GameOutcome) =>
+{
+	const result = outcome.winner == null ? 'Draw'
+		: outcome.winner == Colour.White ? 'White wins' : 'Black wins'
+
+	if (outcome.termination == Termination.Timeout)
+	{
+		return `${ result } on time`
+	}
+
+	return `${ result } by ${ outcome.termination }`
+}
+
+/**
+ * The move generator indexes squares like a 0x88 board widened to 16
+ * files: square (x, y) has index `y * 16 + x`. A board has at most 14
+ * files, so a knight jumping off the side lands past the edge instead of
+ * wrapping around onto the next rank.
+ */
+export const MAX_FILES = 14
+export const MAX_RANKS = 16
+
+/**
+ * Returns a seeded pseudo-random number generator (mulberry32).
+ * Used to generate the Zobrist keys, so hashes are the same on every run.
+ */
+const seededRandom = (seed: number) => () =>
+{
+	seed = (seed + 0x6d2b79f5) | 0
+
+	let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+	t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+
+	return (t ^ (t >>> 14)) >>> 0
+}
+
+const zobristRandom = seededRandom(0x2545f491)
+
+/**
+ * Returns a random 64-bit Zobrist key.
+ */
+const randomZobristKey = () =>
+	(BigInt(zobristRandom()) << BigInt(32)) | BigInt(zobristRandom())
+
+/**
+ * Returns `length` Zobrist keys for variants that hash state of their own.
+ * The keys only depend on the seed, so each variant picks its own.
+ */
+export const zobristKeys = (seed: number, length: number) =>
+{
+	const random = seededRandom(seed)
+
+	return Array.from({ length }, () => (BigInt(random()) << BigInt(32)) | BigInt(random()))
+}
+
+/**
+ * Zobrist keys for every piece on every square,
+ * indexed by colour, piece type and 0x88 index.
+ */
+const ZOBRIST_PIECES = [ Colour.White, Colour.Black ].map(() =>
+	[
+		ChessPieceType.King,
+		ChessPieceType.Queen,
+		ChessPieceType.Rook,
+		ChessPieceType.Bishop,
+		ChessPieceType.Knight,
+		ChessPieceType.Pawn,
+		ChessPieceType.Archbishop,
+		ChessPieceType.Chancellor,
+		ChessPieceType.Amazon
+	].map(() => Array.from({ length: MAX_RANKS * 16 }, randomZobristKey)))
+
+const ZOBRIST_BLACK_TO_MOVE = randomZobristKey()
+
+const ZOBRIST_WHITE_CASTLE_SHORT = randomZobristKey()
+const ZOBRIST_WHITE_CASTLE_LONG = randomZobristKey()
+const ZOBRIST_BLACK_CASTLE_SHORT = randomZobristKey()
+const ZOBRIST_BLACK_CASTLE_LONG = randomZobristKey()
+
+/**
+ * Zobrist keys for the file of a legal en passant capture.
+ */
+const ZOBRIST_EN_PASSANT = Array.from({ length: MAX_FILES }, randomZobristKey)
+
+/**
+ * Zobrist keys for the duck on every square, indexed by 0x88 index.
+ */
+const ZOBRIST_DUCK = Array.from({ length: MAX_RANKS * 16 }, randomZobristKey)
+
+/**
+ * Returns the Zobrist key of a piece on a square.
+ */
+const zobristPieceKey = (piece: ChessPiece, x: number, y: number) =>
+	piece.type == ChessPieceType.Duck
+		? ZOBRIST_DUCK[y * 16 + x]
+		: ZOBRIST_PIECES[piece.colour][piece.type][y * 16 + x]
+
+/**
+ * The piece types that can be in a pocket in Crazyhouse,
+ * in the order they are written in FEN.
+ */
+export const POCKET_PIECE_TYPES = [
+	ChessPieceType.Queen,
+	ChessPieceType.Rook,
+	ChessPieceType.Bishop,
+	ChessPieceType.Knight,
+	ChessPieceType.Pawn
+]
+
+/**
+ * Returns a boolean indicating whether a 0x88 index lies on a board of
+ * the given size.
+ */
+const onBoard = (index: number, width: number, height: number) =>
+	index >= 0 && (index & 15) < width && index >> 4 < height
+
+const KNIGHT_OFFSETS = [ 33, 31, 18, 14, -14, -18, -31, -33 ]
+const KING_OFFSETS = [ 17, 16, 15, 1, -1, -15, -16, -17 ]
+const BISHOP_DIRECTIONS = [ 17, 15, -15, -17 ]
+const ROOK_DIRECTIONS = [ 16, 1, -1, -16 ]
+
+/**
+ * Precomputes, for every square of a board of the given size, the
+ * squares reachable with one of the given offsets.
+ */
+const precomputeJumps = (offsets: number[], width: number, height: number) =>
+	Array.from({ length: height * 16 }, (_, index) => onBoard(index, width, height)
+		? offsets.map(offset => index + offset).filter(to => onBoard(to, width, height))
+		: [])
+
+/**
+ * Precomputes, for every square of a board of the given size and every
+ * direction, the squares along the ray up to the edge of the board.
+ * Sliding pieces walk these rays until they hit a piece.
+ */
+const precomputeRays = (directions: number[], width: number, height: number) =>
+	Array.from({ length: height * 16 }, (_, index) => directions.map(direction =>
+	{
+		const ray: number[] = []
+
+		if (!onBoard(index, width, height))
+		{
+			return ray
+		}
+
+		for (let to = index + direction; onBoard(to, width, height); to += direction)
+		{
+			ray.push(to)
+		}
+
+		return ray
+	}))
+
+/**
+ * The precomputed targets of jumping pieces and rays of sliding pieces
+ * on a board of one size, indexed by 0x88 index.
+ */
+interface MoveTables
+{
+	knightTargets: number[][]
+	kingTargets: number[][]
+	bishopRays: number[][][]
+	rookRays: number[][][]
+}
+
+const MOVE_TABLES = new Map<string, MoveTables>()
+
+/**
+ * Returns the move tables of a board size.
+ * They are precomputed the first time a size is used.
+ */
+const moveTables = (width: number, height: number) =>
+{
+	const size = `${ width }x${ height }`
+
+	if (!MOVE_TABLES.has(size))
+	{
+		MOVE_TABLES.set(size, {
+			knightTargets: precomputeJumps(KNIGHT_OFFSETS, width, height),
+			kingTargets: precomputeJumps(KING_OFFSETS, width, height),
+			bishopRays: precomputeRays(BISHOP_DIRECTIONS, width, height),
+			rookRays: precomputeRays(ROOK_DIRECTIONS, width, height)
+		})
+	}
+
+	return MOVE_TABLES.get(size)
+}
+
+/**
+ * Returns a boolean indicating whether pieces of a type can jump like
+ * a knight.
+ */
+const jumpsLikeKnight = (type: ChessPieceType) =>
+	type == ChessPieceType.Knight || type == ChessPieceType.Archbishop
+	|| type == ChessPieceType.Chancellor || type == ChessPieceType.Amazon
+
+/**
+ * Returns a boolean indicating whether pieces of a type slide diagonally.
+ */
+const slidesDiagonally = (type: ChessPieceType) =>
+	type == ChessPieceType.Bishop || type == ChessPieceType.Queen
+	|| type == ChessPieceType.Archbishop || type == ChessPieceType.Amazon
+
+/**
+ * Returns a boolean indicating whether pieces of a type slide along
+ * ranks and files.
+ */
+const slidesStraight = (type: ChessPieceType) =>
+	type == ChessPieceType.Rook || type == ChessPieceType.Queen
+	|| type == ChessPieceType.Chancellor || type == ChessPieceType.Amazon
+
+/**
+ * A piece that can not leave the line between its king and an enemy
+ * sliding piece without exposing the king.
+ * `ray` runs from next to the king up to and including the pinning piece,
+ * so it holds the squares the pinned piece may still move to.
+ */
+export interface Pin
+{
+	pinned: Square
+	pinner: Square
+	ray: Square[]
+}
+
+/**
+ * Everything `ChessBoard.undo()` needs to take back a move.
+ * Holds the board state from before the move.
+ */
+interface MoveUndo
+{
+	// The pieces that were overwritten during the move, in order.
+	squares: { x: number, y: number, piece: ChessPiece }[]
+
+	whiteCastleShort: boolean
+	whiteCastleLong: boolean
+
+	blackCastleShort: boolean
+	blackCastleLong: boolean
+
+	whiteEnPassant: boolean[]
+	blackEnPassant: boolean[]
+
+	fiftyMoveRule: number
+	drawClaimed: Termination
+
+	variantState: unknown
+
+	zobristKey: bigint
+
+	// The key whose repetition count was increased by the move,
+	// or null if the repetition count was not updated.
+	historyKey: bigint
+}
+
+/**
+ * Class that represents a chess board.
+ * Holds the pieces, the current turn, and legal stuff.
+ */
+export class ChessBoard
+{
+	board: ChessPiece[][]
+
+	// The number of files and ranks, 8 by 8 unless the variant says
+	// otherwise.
+	width: number
+	height: number
+
+	// The precomputed move tables for boards of this size.
+	tables: MoveTables
+
+	whiteCastleShort: boolean
+	whiteCastleLong: boolean
+
+	blackCastleShort: boolean
+	blackCastleLong: boolean
+
+	// Files of the rooks that castle, which differ from the corners in Chess960.
+	whiteCastleShortFile: number
+	whiteCastleLongFile: number
+
+	blackCastleShortFile: number
+	blackCastleLongFile: number
+
+	chess960: boolean
+
+	// The rules of the variant, standard chess by default.
+	rules: VariantRules
+
+	whiteEnPassant: boolean[]
+	blackEnPassant: boolean[]
+
+	turn: Colour
+	turnNumber: number
+
+	moves: Move[]
+	fiftyMoveRule: number
+	history: Map<bigint, number>
+
+	// The claimable draw that ended the game, if any.
+	drawClaimed: Termination
+	drawPolicy: DrawPolicy | DrawClaimCallback
+
+	// Set while moves are only tried, see `tryMove()`. No draws are
+	// claimed then.
+	tryingMove: boolean
+
+	// The state the rules keep of their own, such as the pockets in
+	// Crazyhouse. See `VariantRules.initialState()`.
+	variantState: unknown
+
+	zobristKey: bigint
+
+	undoStack: MoveUndo[]
+	undoInProgress: MoveUndo
+
+	startFEN: string
+
+	constructor(width = 8, height = 8)
+	{
+		this.board = []
+
+		this.width = width
+		this.height = height
+		this.tables = moveTables(width, height)
+
+		this.whiteCastleShort = true
+		this.whiteCastleLong = true
+
+		this.blackCastleShort = true
+		this.blackCastleLong = true
+
+		this.whiteCastleShortFile = width - 1
+		this.whiteCastleLongFile = 0
+
+		this.blackCastleShortFile = width - 1
+		this.blackCastleLongFile = 0
+
+		this.chess960 = false
+		this.rules = new StandardRules()
+
+		this.whiteEnPassant = Array(width).fill(false)
+		this.blackEnPassant = Array(width).fill(false)
+
+		this.turn = Colour.White
+		this.turnNumber = 0
+
+		this.moves = []
+		this.fiftyMoveRule = 0
+		this.history = new Map()
+
+		this.drawClaimed = null
+		this.drawPolicy = DrawPolicy.Claim
+		this.tryingMove = false
+
+		this.variantState = this.rules.initialState()
+
+		this.startFEN = null
+
+		this.zobristKey = BigInt(0)
+
+		this.undoStack = []
+		this.undoInProgress = null
+	}
+
+	/**
+	 * Returns the board state as a UCI string of moves.
+	 * The moves are played from `startFEN`, or from the standard
+	 * starting position if the board was not created from a FEN string.
+	 */
+	boardStateUCI()
+	{
+		return this.moves.map(move => move.toString()).join(' ')
+	}
+
+	/**
+	 * Returns the variant the board is played by.
+	 */
+	get variant()
+	{
+		return this.rules.variant
+	}
+
+	/**
+	 * Returns the board state as a FEN string.
+	 */
+	toFEN()
+	{
+		// Castling rights.
+		// Chess960 uses Shredder-FEN, which names the file of the rook.
+
+		const fileLetter = (file: number) => String.fromCharCode('A'.charCodeAt(0) + file)
+		let castling = ''
+
+		if (this.whiteCastleShort)
+		{
+			castling += this.chess960 ? fileLetter(this.whiteCastleShortFile) : 'K'
+		}
+
+		if (this.whiteCastleLong)
+		{
+			castling += this.chess960 ? fileLetter(this.whiteCastleLongFile) : 'Q'
+		}
+
+		if (this.blackCastleShort)
+		{
+			castling += this.chess960
+				? fileLetter(this.blackCastleShortFile).toLowerCase() : 'k'
+		}
+
+		if (this.blackCastleLong)
+		{
+			castling += this.chess960
+				? fileLetter(this.blackCastleLongFile).toLowerCase() : 'q'
+		}
+
+		// En passant target square.
+		// Only the flags of the side that just moved are up to date.
+
+		let enPassant = '-'
+
+		if (this.turn == Colour.White && this.blackEnPassant.includes(true))
+		{
+			enPassant = new Square(this.blackEnPassant.indexOf(true), this.height - 3).toString()
+		}
+
+		if (this.turn == Colour.Black && this.whiteEnPassant.includes(true))
+		{
+			enPassant = new Square(this.whiteEnPassant.indexOf(true), 2).toString()
+		}
+
+		const fields = [
+			this.placementFEN(),
+			this.turn == Colour.White ? 'w' : 'b',
+			castling == '' ? '-' : castling,
+			enPassant
+		]
+
+		this.rules.writeFEN(this, fields)
+
+		fields.push(this.fiftyMoveRule.toString(), (Math.floor(this.turnNumber / 2) + 1).toString())
+
+		return fields.join(' ')
+	}
+
+	/**
+	 * Returns the piece placement field of the FEN string, from the last
+	 * rank down to the first. If `markPromoted` is set, promoted pieces
+	 * are followed by a '~', as in Crazyhouse.
+	 */
+	placementFEN(markPromoted = false)
+	{
+		const ranks: string[] = []
+
+		for (let y = this.height - 1; y >= 0; y--)
+		{
+			let rank = ''
+			let emptySquares = 0
+
+			for (let x = 0; x < this.width; x++)
+			{
+				const piece = this.pieceAt(x, y)
+
+				if (piece == null)
+				{
+					emptySquares++
+					continue
+				}
+
+				if (emptySquares > 0)
+				{
+					rank += emptySquares
+					emptySquares = 0
+				}
+
+				rank += piece.toString()
+
+				if (piece.promoted && markPromoted)
+				{
+					rank += '~'
+				}
+			}
+
+			if (emptySquares > 0)
+			{
+				rank += emptySquares
+			}
+
+			ranks.push(rank)
+		}
+
+		return ranks.join('/')
+	}
+
+	/**
+	 * Returns a hash of the board state.
+	 * This is the 64-bit Zobrist key, which `move()` keeps up to date.
+	 */
+	boardStateHash()
+	{
+		return this.zobristKey
+	}
+
+	/**
+	 * Computes the Zobrist key of the board state from scratch.
+	 */
+	computeZobristKey()
+	{
+		let key = this.zobristStateKey()
+
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
+			{
+				const piece = this.pieceAt(x, y)
+
+				if (piece != null)
+				{
+					key ^= zobristPieceKey(piece, x, y)
+				}
+			}
+		}
+
+		return key
+	}
+
+	/**
+	 * Returns the part of the Zobrist key that does not depend on the
+	 * piece placement: the side to move, the castling rights, the
+	 * en passant file and the state the variant keeps of its own.
+	 */
+	zobristStateKey()
+	{
+		let key = BigInt(0)
+
+		if (this.turn == Colour.Black)
+		{
+			key ^= ZOBRIST_BLACK_TO_MOVE
+		}
+
+		if (this.whiteCastleShort)
+		{
+			key ^= ZOBRIST_WHITE_CASTLE_SHORT
+		}
+
+		if (this.whiteCastleLong)
+		{
+			key ^= ZOBRIST_WHITE_CASTLE_LONG
+		}
+
+		if (this.blackCastleShort)
+		{
+			key ^= ZOBRIST_BLACK_CASTLE_SHORT
+		}
+
+		if (this.blackCastleLong)
+		{
+			key ^= ZOBRIST_BLACK_CASTLE_LONG
+		}
+
+		const enPassantFile = this.enPassantFile()
+
+		if (enPassantFile != -1)
+		{
+			key ^= ZOBRIST_EN_PASSANT[enPassantFile]
+		}
+
+		return key ^ this.rules.stateKey(this)
+	}
+
+	/**
+	 * Returns the file on which the side to move can legally capture
+	 * en passant, or -1 if there is no such capture.
+	 * Under FIDE rules, positions only differ by their en passant
+	 * square if the capture is actually possible.
+	 */
+	enPassantFile()
+	{
+		const enPassant = this.turn == Colour.White
+			? this.blackEnPassant : this.whiteEnPassant
+
+		const x = enPassant.indexOf(true)
+
+		if (x == -1)
+		{
+			return -1
+		}
+
+		// The rank the capturing pawns stand on.
+
+		const y = this.turn == Colour.White ? this.height - 4 : 3
+
+		for (const xFrom of [ x - 1, x + 1 ])
+		{
+			const piece = this.pieceAt(xFrom, y)
+
+			if (piece != null && piece.is(this.turn, ChessPieceType.Pawn)
+				&& this.possibleMoves(xFrom, y, true).some(sq => sq.x == x))
+			{
+				return x
+			}
+		}
+
+		return -1
+	}
+
+	/**
+	 * Returns the piece at the given square.
+	 */
+	pieceAt(x: number, y: number)
+	{
+		return this.board[y][x]
+	}
+
+	/**
+	 * Returns the piece at the given index on the 0x88 board.
+	 */
+	pieceAtIndex(index: number)
+	{
+		return this.board[index >> 4][index & 15]
+	}
+
+	/**
+	 * Returns a boolean indicating whether a 0x88 index lies on the board.
+	 */
+	onBoard(index: number)
+	{
+		return onBoard(index, this.width, this.height)
+	}
+
+	/**
+	 * Sets the piece at the given square.
+	 * Keeps the Zobrist key up to date, and records the old piece
+	 * while a move is being made, so it can be undone.
+	 */
+	setAt(x: number, y: number, piece: ChessPiece)
+	{
+		const oldPiece = this.board[y][x]
+
+		if (this.undoInProgress != null)
+		{
+			this.undoInProgress.squares.push({ x, y, piece: oldPiece })
+		}
+
+		if (oldPiece != null)
+		{
+			this.zobristKey ^= zobristPieceKey(oldPiece, x, y)
+		}
+
+		if (piece != null)
+		{
+			this.zobristKey ^= zobristPieceKey(piece, x, y)
+		}
+
+		this.board[y][x] = piece
+	}
+
+	/**
+	 * Decodes a human readable chess coordinate to square indices.
+	 * Ranks past the ninth take two digits, like j10.
+	 */
+	decodeCoord(coord: string)
+	{
+		const { x, y } = Square.fromString(coord)
+
+		return [ x, y ]
+	}
+
+	/**
+	 * Returns the colour of the given square.
+	 */
+	squareColour(x: number, y: number)
+	{
+		if ((x + y) % 2 == 0)
+		{
+			return Colour.Black
+		}
+
+		return Colour.White
+	}
+
+	/**
+	 * Sets a piece at a given human readable chess coordinate.
+	 */
+	set(coord: string, pieceType: ChessPieceType, colour: Colour)
+	{
+		const [ x, y ] = this.decodeCoord(coord)
+
+		this.setAt(x, y, new ChessPiece(pieceType, colour))
+	}
+
+	/**
+	 * Counts the number of pieces on the board, optionally of one colour.
+	 * Useful for checking if a piece has been captured,
+	 * which is used for determining if the fifty move rule applies.
+	 */
+	countPieces(colour?: Colour)
+	{
+		let count = 0
+
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
+			{
+				const piece = this.board[y][x]
+
+				if (piece != null && (colour == null || piece.colour == colour))
+				{
+					count++
+				}
+			}
+		}
+
+		return count
+	}
+
+	/**
+	 * Computes the score of the board.
+	 */
+	computeScore()
+	{
 		let whitePawns = 0
 		let whiteKnights = 0
 		let whiteBishops = 0
@@ -443,9 +1467,9 @@ export class ChessBoard
 		let blackRooks = 0
 		let blackQueens = 0
 
-		for (let y = 0; y < 8; y++)
+		for (let y = 0; y < this.height; y++)
 		{
-			for (let x = 0; x < 8; x++)
+			for (let x = 0; x < this.width; x++)
 			{
 				const piece = this.board[y][x]
 
@@ -497,17 +1521,20 @@ export class ChessBoard
 			}
 		}
 
-		const whitePawnsEaten   = Math.max(0, 8 - whitePawns)
-		const whiteKnightsEaten = Math.max(0, 2 - whiteKnights)
-		const whiteBishopsEaten = Math.max(0, 2 - whiteBishops)
-		const whiteRooksEaten   = Math.max(0, 2 - whiteRooks)
-		const whiteQueensEaten  = Math.max(0, 1 - whiteQueens)
+		// Promoted pieces make the counts negative, e.g. -1 queens eaten
+		// for a second queen, so they cancel out the pawn that promoted.
+
+		const whitePawnsEaten   = 8 - whitePawns
+		const whiteKnightsEaten = 2 - whiteKnights
+		const whiteBishopsEaten = 2 - whiteBishops
+		const whiteRooksEaten   = 2 - whiteRooks
+		const whiteQueensEaten  = 1 - whiteQueens
 
-		const blackPawnsEaten   = Math.max(0, 8 - blackPawns)
-		const blackKnightsEaten = Math.max(0, 2 - blackKnights)
-		const blackBishopsEaten = Math.max(0, 2 - blackBishops)
-		const blackRooksEaten   = Math.max(0, 2 - blackRooks)
-		const blackQueensEaten  = Math.max(0, 1 - blackQueens)
+		const blackPawnsEaten   = 8 - blackPawns
+		const blackKnightsEaten = 2 - blackKnights
+		const blackBishopsEaten = 2 - blackBishops
+		const blackRooksEaten   = 2 - blackRooks
+		const blackQueensEaten  = 1 - blackQueens
 
 		const whiteScore = whitePawnsEaten + 3 * whiteKnightsEaten
 			+ 3 * whiteBishopsEaten    + 5 * whiteRooksEaten
@@ -535,1971 +1562,2167 @@ export class ChessBoard
 	}
 
 	/**
-	 * Returns a boolean indicating whether white is in check.
+	 * Returns the index of the king of the given colour on the 0x88 board,
+	 * or -1 if there is no such king.
 	 */
-	whiteInCheck()
+	kingIndex(colour: Colour)
 	{
-		for (let y = 0; y < 8; y++)
+		for (let y = 0; y < this.height; y++)
 		{
-			for (let x = 0; x < 8; x++)
+			for (let x = 0; x < this.width; x++)
 			{
 				const piece = this.pieceAt(x, y)
 
-				if (piece != null && piece.colour == Colour.Black)
+				if (piece != null && piece.is(colour, ChessPieceType.King))
 				{
-					const moves = this.possibleMoves(x, y, false)
-
-					for (const move of moves)
-					{
-						const piece = this.pieceAt(move.x, move.y)
-
-						if (piece != null && piece.is(
-							Colour.White, ChessPieceType.King))
-						{
-							return true
-						}
-					}
+					return y * 16 + x
 				}
 			}
 		}
 
-		return false
+		return -1
 	}
 
 	/**
-	 * Returns a boolean indicating whether black is in check.
+	 * Returns the index of the duck on the 0x88 board,
+	 * or -1 if it has not been placed yet.
 	 */
-	blackInCheck()
+	duckIndex()
 	{
-		for (let y = 0; y < 8; y++)
+		for (let y = 0; y < this.height; y++)
 		{
-			for (let x = 0; x < 8; x++)
+			for (let x = 0; x < this.width; x++)
 			{
 				const piece = this.pieceAt(x, y)
 
-				if (piece != null && piece.colour == Colour.White)
+				if (piece != null && piece.type == ChessPieceType.Duck)
 				{
-					const moves = this.possibleMoves(x, y, false)
-
-					for (const move of moves)
-					{
-						const piece = this.pieceAt(move.x, move.y)
-
-						if (piece != null && piece.is(
-							Colour.Black, ChessPieceType.King))
-						{
-							return true
-						}
-					}
+					return y * 16 + x
 				}
 			}
 		}
 
-		return false
+		return -1
 	}
 
 	/**
-	 * Returns a boolean indicating whether white can move.
+	 * Returns the 0x88 indices of the pieces of the given colour that
+	 * attack a square on the 0x88 board. If `firstOnly` is set, stops at
+	 * the first attacker found.
+	 * Works backwards from the square, so only the squares an attacker
+	 * could stand on are looked at.
 	 */
-	whiteCanMove()
+	attackerIndices(index: number, colour: Colour, firstOnly = false)
 	{
-		for (let y = 0; y < 8; y++)
+		const attackers: number[] = []
+
+		// Pawns attack diagonally forward, so look diagonally backward.
+
+		const pawnDirection = colour == Colour.White ? -16 : 16
+
+		for (const from of [ index + pawnDirection - 1, index + pawnDirection + 1 ])
 		{
-			for (let x = 0; x < 8; x++)
+			if (!this.onBoard(from))
 			{
-				const piece = this.pieceAt(x, y)
+				continue
+			}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					const moves = this.possibleMoves(x, y, true)
+			const piece = this.pieceAtIndex(from)
 
-					if (moves.length > 0)
-					{
-						return true
-					}
+			if (piece != null && piece.is(colour, ChessPieceType.Pawn))
+			{
+				attackers.push(from)
+
+				if (firstOnly)
+				{
+					return attackers
 				}
 			}
 		}
 
-		return false
-	}
+		for (const from of this.tables.knightTargets[index])
+		{
+			const piece = this.pieceAtIndex(from)
 
-	/**
-	 * Returns a boolean indicating whether black can move.
-	 */
-	blackCanMove()
-	{
-		for (let y = 0; y < 8; y++)
+			if (piece != null && piece.colour == colour && jumpsLikeKnight(piece.type))
+			{
+				attackers.push(from)
+
+				if (firstOnly)
+				{
+					return attackers
+				}
+			}
+		}
+
+		for (const from of this.tables.kingTargets[index])
 		{
-			for (let x = 0; x < 8; x++)
+			const piece = this.pieceAtIndex(from)
+
+			if (piece != null && piece.is(colour, ChessPieceType.King))
 			{
-				const piece = this.pieceAt(x, y)
+				attackers.push(from)
 
-				if (piece != null && piece.colour == Colour.Black)
+				if (firstOnly)
 				{
-					const moves = this.possibleMoves(x, y, true)
+					return attackers
+				}
+			}
+		}
+
+		// Sliding pieces: the first piece on each ray is the only one
+		// that can attack the square.
+
+		for (const [ rays, slides ] of [
+			[ this.tables.bishopRays[index], slidesDiagonally ],
+			[ this.tables.rookRays[index], slidesStraight ]
+		] as [ number[][], (type: ChessPieceType) => boolean ][])
+		{
+			for (const ray of rays)
+			{
+				for (const from of ray)
+				{
+					const piece = this.pieceAtIndex(from)
+
+					if (piece == null)
+					{
+						continue
+					}
 
-					if (moves.length > 0)
+					if (piece.colour == colour && slides(piece.type))
 					{
-						return true
+						attackers.push(from)
+
+						if (firstOnly)
+						{
+							return attackers
+						}
 					}
+
+					break
 				}
 			}
 		}
 
-		return false
+		return attackers
 	}
 
 	/**
-	 * Returns a boolean indicating whether the game has ended.
+	 * Returns a boolean indicating whether a square on the 0x88 board is
+	 * attacked by any piece of the given colour.
 	 */
-	ended()
+	isAttacked(index: number, colour: Colour)
 	{
-		if (this.fiftyMoveRuleReached || this.threefoldRepetition
-			|| this.insufficientMaterial())
-		{
-			return true
-		}
-
-		if (this.turn == Colour.White && !this.whiteCanMove())
-		{
-			return true
-		}
-
-		if (this.turn == Colour.Black && !this.blackCanMove())
-		{
-			return true
-		}
-
-		return false
+		return this.attackerIndices(index, colour, true).length != 0
 	}
 
 	/**
-	 * Returns the reason the game ended.
+	 * Returns a boolean indicating whether a square is attacked by any
+	 * piece of the given colour.
 	 */
-	endReason()
+	isSquareAttacked(square: Square, colour: Colour)
 	{
-		if (!this.ended())
-		{
-			return null
-		}
-
-		if (this.insufficientMaterial())
-		{
-			return 'Draw by insufficient material'
-		}
-
-		if (this.fiftyMoveRuleReached)
-		{
-			return 'Draw by fifty move rule'
-		}
-
-		if (this.threefoldRepetition)
-		{
-			return 'Draw by threefold repetition'
-		}
-
-		if (this.turn == Colour.White && !this.whiteCanMove() && this.whiteInCheck())
-		{
-			return 'Black wins by checkmate'
-		}
-
-		if (this.turn == Colour.Black && !this.blackCanMove() && this.blackInCheck())
-		{
-			return 'White wins by checkmate'
-		}
-
-		return 'Draw by stalemate'
+		return this.isAttacked(square.y * 16 + square.x, colour)
 	}
 
 	/**
-	 * Returns an array of all possible moves for a given piece.
+	 * Returns the squares of the pieces of the given colour that attack
+	 * a square. Pieces behind another attacker on the same line are not
+	 * included.
 	 */
-	possibleMoves(x: number, y: number, checkCheck: boolean)
+	attackersOf(square: Square, colour: Colour)
 	{
-		const moves: Square[] = []
-
-		if (x >= 8 || y >= 8 || x < 0 || y < 0)
-		{
-			return moves
-		}
+		return this.attackerIndices(square.y * 16 + square.x, colour)
+			.map(index => new Square(index & 15, index >> 4))
+	}
 
-		const piece = this.pieceAt(x, y)
+	/**
+	 * Returns the squares the piece on a square attacks, whether they are
+	 * empty or hold a piece of either colour. Pawns only attack diagonally.
+	 * Returns an empty array if the square is empty.
+	 */
+	attacksFrom(square: Square)
+	{
+		const piece = this.pieceAt(square.x, square.y)
+		const index = square.y * 16 + square.x
+		const targets: number[] = []
 
 		if (piece == null)
 		{
-			return moves
+			return []
 		}
 
-		if (piece.is(Colour.White, ChessPieceType.Pawn))
+		switch (piece.type)
 		{
-			if (this.pieceAt(x, y + 1) == null)
+			case ChessPieceType.Pawn:
 			{
-				if (!checkCheck || this.isLegal(x, y, x, y + 1))
-				{
-					moves.push(new Square(x, y + 1))
-				}
+				const forward = piece.colour == Colour.White ? 16 : -16
 
-				if (y == 1 && this.pieceAt(x, y + 2) == null)
-				{
-					if (!checkCheck || this.isLegal(x, y, x, y + 2))
-					{
-						moves.push(new Square(x, y + 2))
-					}
-				}
-			}
+				targets.push(...[ index + forward - 1, index + forward + 1 ]
+					.filter(to => this.onBoard(to)))
 
-			const leftCapture = this.pieceAt(x - 1, y + 1)
+				break
+			}
 
-			if (leftCapture != null && leftCapture.colour == Colour.Black)
+			case ChessPieceType.King:
 			{
-				if (!checkCheck || this.isLegal(x, y, x - 1, y + 1))
-				{
-					moves.push(new Square(x - 1, y + 1))
-				}
+				targets.push(...this.tables.kingTargets[index])
+				break
 			}
 
-			const rightCapture = this.pieceAt(x + 1, y + 1)
+			// The duck only blocks.
 
-			if (rightCapture != null && rightCapture.colour == Colour.Black)
+			case ChessPieceType.Duck:
 			{
-				if (!checkCheck || this.isLegal(x, y, x + 1, y + 1))
-				{
-					moves.push(new Square(x + 1, y + 1))
-				}
+				break
 			}
 
-			const leftEnPassant = this.pieceAt(x - 1, y)
-
-			if (leftEnPassant != null
-				&& leftEnPassant.is(Colour.Black, ChessPieceType.Pawn)
-				&& this.blackEnPassant[x - 1])
+			default:
 			{
-				if (!checkCheck || this.isLegal(x, y, x - 1, y + 1))
+				if (jumpsLikeKnight(piece.type))
 				{
-					moves.push(new Square(x - 1, y + 1))
+					targets.push(...this.tables.knightTargets[index])
 				}
-			}
 
-			const rightEnPassant = this.pieceAt(x + 1, y)
+				const rays = [
+					...(slidesDiagonally(piece.type) ? this.tables.bishopRays[index] : []),
+					...(slidesStraight(piece.type) ? this.tables.rookRays[index] : [])
+				]
 
-			if (rightEnPassant != null
-				&& rightEnPassant.is(Colour.Black, ChessPieceType.Pawn)
-				&& this.blackEnPassant[x + 1])
-			{
-				if (!checkCheck || this.isLegal(x, y, x + 1, y + 1))
+				for (const ray of rays)
 				{
-					moves.push(new Square(x + 1, y + 1))
+					for (const to of ray)
+					{
+						targets.push(to)
+
+						if (this.pieceAtIndex(to) != null)
+						{
+							break
+						}
+					}
 				}
 			}
 		}
 
-		if (piece.is(Colour.Black, ChessPieceType.Pawn))
+		return targets.map(to => new Square(to & 15, to >> 4))
+	}
+
+	/**
+	 * Returns for every square how many pieces of the given colour attack
+	 * it, indexed by [y][x] like `board`.
+	 */
+	attackMap(colour: Colour)
+	{
+		const map = Array.from({ length: this.height }, () => Array<number>(this.width).fill(0))
+
+		for (let y = 0; y < this.height; y++)
 		{
-			if (this.pieceAt(x, y - 1) == null)
+			for (let x = 0; x < this.width; x++)
 			{
-				if (!checkCheck || this.isLegal(x, y, x, y - 1))
+				const piece = this.pieceAt(x, y)
+
+				if (piece == null || piece.colour != colour)
 				{
-					moves.push(new Square(x, y - 1))
+					continue
 				}
 
-				if (y == 6 && this.pieceAt(x, y - 2) == null)
+				for (const target of this.attacksFrom(new Square(x, y)))
 				{
-					if (!checkCheck || this.isLegal(x, y, x, y - 2))
-					{
-						moves.push(new Square(x, y - 2))
-					}
+					map[target.y][target.x]++
 				}
 			}
+		}
+
+		return map
+	}
 
-			const leftCapture = this.pieceAt(x - 1, y - 1)
+	/**
+	 * Returns the squares the given colour can see in fog of war: those
+	 * of its own pieces and those they can move to. A pawn also sees
+	 * the piece blocking it, so it knows why it can not move.
+	 */
+	visibleSquares(colour: Colour)
+	{
+		const visible = new Set<number>()
 
-			if (leftCapture != null && leftCapture.colour == Colour.White)
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
 			{
-				if (!checkCheck || this.isLegal(x, y, x - 1, y - 1))
+				const piece = this.pieceAt(x, y)
+
+				if (piece == null || piece.colour != colour)
 				{
-					moves.push(new Square(x - 1, y - 1))
+					continue
 				}
-			}
 
-			const rightCapture = this.pieceAt(x + 1, y - 1)
+				const index = y * 16 + x
 
-			if (rightCapture != null && rightCapture.colour == Colour.White)
-			{
-				if (!checkCheck || this.isLegal(x, y, x + 1, y - 1))
+				visible.add(index)
+
+				for (const to of this.pseudoLegalTargets(index, piece))
 				{
-					moves.push(new Square(x + 1, y - 1))
+					visible.add(to)
 				}
-			}
-
-			const leftEnPassant = this.pieceAt(x - 1, y)
 
-			if (leftEnPassant != null
-				&& leftEnPassant.is(Colour.White, ChessPieceType.Pawn)
-				&& this.whiteEnPassant[x - 1])
-			{
-				if (!checkCheck || this.isLegal(x, y, x - 1, y - 1))
+				if (piece.type != ChessPieceType.Pawn)
 				{
-					moves.push(new Square(x - 1, y - 1))
+					continue
 				}
-			}
 
-			const rightEnPassant = this.pieceAt(x + 1, y)
+				const forward = colour == Colour.White ? 16 : -16
+				const pushes = this.rules.canDoublePush(this, colour, y) ? 2 : 1
 
-			if (rightEnPassant != null
-				&& rightEnPassant.is(Colour.White, ChessPieceType.Pawn)
-				&& this.whiteEnPassant[x + 1])
-			{
-				if (!checkCheck || this.isLegal(x, y, x + 1, y - 1))
+				let to = index + forward
+
+				for (let push = 0; push < pushes && this.onBoard(to); push++)
 				{
-					moves.push(new Square(x + 1, y - 1))
+					visible.add(to)
+
+					if (this.pieceAtIndex(to) != null)
+					{
+						break
+					}
+
+					to += forward
 				}
 			}
 		}
 
-		if (piece.is(Colour.White, ChessPieceType.Bishop))
+		return [ ...visible ].map(index => new Square(index & 15, index >> 4))
+	}
+
+	/**
+	 * Returns the board as the given colour sees it in fog of war, with
+	 * the squares it can not see emptied.
+	 * The moves leading up to the position are left out, since they would
+	 * give the hidden pieces away, so the view starts from its own FEN.
+	 * The legal moves of the view are those of the real board, so a player
+	 * can pick its moves on the view and play them on the real board.
+	 * The game does not end on the view because the enemy king or the
+	 * enemy moves are hidden.
+	 * Throws an error if the board is not played as fog of war.
+	 */
+	view(colour: Colour)
+	{
+		if (this.variant != Variant.FogOfWar)
 		{
-			let diag = new Square(x + 1, y + 1)
+			throw new Error(`Only fog of war boards have views, not ${ this.variant }`)
+		}
 
-			while (diag.x < 8 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		const view = this.clone()
+		const visible = Array.from({ length: this.height }, () => Array<boolean>(this.width).fill(false))
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		for (const square of this.visibleSquares(colour))
+		{
+			visible[square.y][square.x] = true
+		}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
+			{
+				if (!visible[y][x])
 				{
-					moves.push(diag.clone())
+					view.setAt(x, y, null)
 				}
+			}
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		// The castling rights of the enemy are hidden as well.
 
-				diag.x++
-				diag.y++
-			}
+		if (colour == Colour.White)
+		{
+			view.blackCastleShort = false
+			view.blackCastleLong = false
+		}
+		else
+		{
+			view.whiteCastleShort = false
+			view.whiteCastleLong = false
+		}
 
-			diag = new Square(x + 1, y - 1)
+		// The enemy is not beaten by having its king or its moves hidden.
 
-			while (diag.x < 8 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		const enemy = colour == Colour.White ? Colour.Black : Colour.White
+		const rules = new FogOfWarRules()
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		rules.hiddenSide = enemy
+		rules.kingHidden = view.kingIndex(enemy) == -1
+		view.rules = rules
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		view.zobristKey = view.computeZobristKey()
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		view.moves = []
+		view.undoStack = []
+		view.startFEN = view.toFEN()
 
-				diag.x++
-				diag.y--
-			}
+		view.history = new Map()
+		view.history.set(view.boardStateHash(), 1)
 
-			diag = new Square(x - 1, y + 1)
+		return view
+	}
 
-			while (diag.x >= 0 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+	/**
+	 * Returns the squares of the pieces giving check to the side to move.
+	 */
+	checkers()
+	{
+		const king = this.kingIndex(this.turn)
+		const enemy = this.turn == Colour.White ? Colour.Black : Colour.White
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		if (king == -1 || !this.rules.canBeChecked(this, this.turn))
+		{
+			return []
+		}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		return this.attackersOf(new Square(king & 15, king >> 4), enemy)
+	}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+	/**
+	 * Returns the pieces of the given colour that are pinned to their king,
+	 * with the pieces pinning them.
+	 */
+	pinnedPieces(colour: Colour)
+	{
+		const king = this.kingIndex(colour)
+		const pins: Pin[] = []
 
-				diag.x--
-				diag.y++
-			}
+		if (king == -1 || !this.rules.canBeChecked(this, colour))
+		{
+			return pins
+		}
 
-			diag = new Square(x - 1, y - 1)
+		const toSquare = (index: number) => new Square(index & 15, index >> 4)
 
-			while (diag.x >= 0 && diag.y >= 0)
+		for (const [ rays, slides ] of [
+			[ this.tables.bishopRays[king], slidesDiagonally ],
+			[ this.tables.rookRays[king], slidesStraight ]
+		] as [ number[][], (type: ChessPieceType) => boolean ][])
+		{
+			for (const ray of rays)
 			{
-				const piece = this.pieceAt(diag.x, diag.y)
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+				// Look for one of our pieces, followed by an enemy slider.
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+				let pinned = -1
 
-				if (piece != null && piece.colour == Colour.Black)
+				for (let i = 0; i < ray.length; i++)
 				{
-					break
-				}
+					const piece = this.pieceAtIndex(ray[i])
 
-				diag.x--
-				diag.y--
-			}
-		}
+					if (piece == null)
+					{
+						continue
+					}
 
-		if (piece.is(Colour.Black, ChessPieceType.Bishop))
-		{
-			let diag = new Square(x + 1, y + 1)
+					if (pinned == -1 && piece.colour == colour)
+					{
+						pinned = ray[i]
+						continue
+					}
 
-			while (diag.x < 8 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+					if (pinned != -1 && piece.colour != colour && slides(piece.type))
+					{
+						pins.push({
+							pinned: toSquare(pinned),
+							pinner: toSquare(ray[i]),
+							ray: ray.slice(0, i + 1).map(toSquare)
+						})
+					}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
 					break
 				}
+			}
+		}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		return pins
+	}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+	/**
+	 * Returns a boolean indicating whether white is in check.
+	 */
+	whiteInCheck()
+	{
+		const king = this.kingIndex(Colour.White)
 
-				diag.x++
-				diag.y++
-			}
+		return king != -1 && this.rules.canBeChecked(this, Colour.White)
+			&& this.isAttacked(king, Colour.Black)
+	}
+
+	/**
+	 * Returns a boolean indicating whether black is in check.
+	 */
+	blackInCheck()
+	{
+		const king = this.kingIndex(Colour.Black)
 
-			diag = new Square(x + 1, y - 1)
+		return king != -1 && this.rules.canBeChecked(this, Colour.Black)
+			&& this.isAttacked(king, Colour.White)
+	}
 
-			while (diag.x < 8 && diag.y >= 0)
+	/**
+	 * Returns a boolean indicating whether white can move.
+	 */
+	whiteCanMove()
+	{
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
 			{
-				const piece = this.pieceAt(diag.x, diag.y)
+				const piece = this.pieceAt(x, y)
 
-				if (piece != null && piece.colour == Colour.Black)
+				if (piece != null && piece.colour == Colour.White)
 				{
-					break
-				}
+					const moves = this.possibleMoves(x, y, true)
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
+					if (moves.length > 0)
+					{
+						return true
+					}
 				}
+			}
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		return false
+	}
 
-				diag.x++
-				diag.y--
-			}
+	/**
+	 * Returns a boolean indicating whether the side to move can move,
+	 * including the moves the variant adds, such as drops.
+	 */
+	canMove()
+	{
+		// Passing `inCheck` has every drop checked against check.
 
-			diag = new Square(x - 1, y + 1)
+		return (this.turn == Colour.White ? this.whiteCanMove() : this.blackCanMove())
+			|| this.rules.extraMoves(this, true).length > 0
+	}
 
-			while (diag.x >= 0 && diag.y < 8)
+	/**
+	 * Returns a boolean indicating whether black can move.
+	 */
+	blackCanMove()
+	{
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
 			{
-				const piece = this.pieceAt(diag.x, diag.y)
+				const piece = this.pieceAt(x, y)
 
 				if (piece != null && piece.colour == Colour.Black)
 				{
-					break
-				}
+					const moves = this.possibleMoves(x, y, true)
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
+					if (moves.length > 0)
+					{
+						return true
+					}
 				}
+			}
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		return false
+	}
 
-				diag.x--
-				diag.y++
-			}
+	/**
+	 * Returns a boolean indicating whether the game has ended.
+	 */
+	ended()
+	{
+		return this.outcome() != null
+	}
 
-			diag = new Square(x - 1, y - 1)
+	/**
+	 * Returns how the game ended, or null if it has not ended.
+	 */
+	outcome(): GameOutcome
+	{
+		const variantOutcome = this.rules.outcome(this)
 
-			while (diag.x >= 0 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		if (variantOutcome != null)
+		{
+			return variantOutcome
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		if (!this.canMove())
+		{
+			return this.rules.noMovesOutcome(this)
+		}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		if (this.rules.insufficientMaterial(this))
+		{
+			return { winner: null, termination: Termination.InsufficientMaterial }
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		if (this.repetitions() >= 5)
+		{
+			return { winner: null, termination: Termination.FivefoldRepetition }
+		}
 
-				diag.x--
-				diag.y--
-			}
+		if (this.fiftyMoveRule >= 150)
+		{
+			return { winner: null, termination: Termination.SeventyFiveMoveRule }
 		}
 
-		if (piece.is(Colour.White, ChessPieceType.Knight))
+		if (this.drawClaimed != null)
 		{
-			if (x - 1 >= 0 && y - 2 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y - 2)
+			return { winner: null, termination: this.drawClaimed }
+		}
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y - 2))
-					{
-						moves.push(new Square(x - 1, y - 2))
-					}
-				}
-			}
+		return null
+	}
 
-			if (x - 2 >= 0 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x - 2, y - 1)
+	/**
+	 * Returns how often the current position has occurred.
+	 */
+	repetitions()
+	{
+		return this.history.get(this.boardStateHash()) ?? 0
+	}
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 2, y - 1))
-					{
-						moves.push(new Square(x - 2, y - 1))
-					}
-				}
-			}
+	/**
+	 * Returns the draw the side to move can claim: threefold repetition
+	 * or the fifty move rule. Returns null if no draw can be claimed.
+	 */
+	claimableDraw()
+	{
+		if (this.repetitions() >= 3)
+		{
+			return Termination.ThreefoldRepetition
+		}
 
-			if (x + 1 < 8 && y - 2 >= 0)
-			{
-				const piece = this.pieceAt(x + 1, y - 2)
+		if (this.fiftyMoveRule >= 100)
+		{
+			return Termination.FiftyMoveRule
+		}
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y - 2))
-					{
-						moves.push(new Square(x + 1, y - 2))
-					}
-				}
-			}
+		return null
+	}
 
-			if (x + 2 < 8 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x + 2, y - 1)
+	/**
+	 * Returns a boolean indicating whether the side to move can claim a draw.
+	 */
+	canClaimDraw()
+	{
+		return this.claimableDraw() != null
+	}
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 2, y - 1))
-					{
-						moves.push(new Square(x + 2, y - 1))
-					}
-				}
-			}
+	/**
+	 * Claims a draw for the side to move, which ends the game.
+	 * Returns a boolean indicating whether a draw could be claimed.
+	 */
+	claimDraw()
+	{
+		const termination = this.claimableDraw()
 
-			if (x - 1 >= 0 && y + 2 < 8)
-			{
-				const piece = this.pieceAt(x - 1, y + 2)
+		if (termination == null)
+		{
+			return false
+		}
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y + 2))
-					{
-						moves.push(new Square(x - 1, y + 2))
-					}
-				}
-			}
+		this.drawClaimed = termination
+		return true
+	}
 
-			if (x - 2 >= 0 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x - 2, y + 1)
+	/**
+	 * Returns an array of all possible moves for a given piece.
+	 * If `checkCheck` is set, moves that leave the king in check are
+	 * filtered out and castling moves are included.
+	 */
+	possibleMoves(x: number, y: number, checkCheck: boolean)
+	{
+		const moves: Square[] = []
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 2, y + 1))
-					{
-						moves.push(new Square(x - 2, y + 1))
-					}
-				}
-			}
+		if (x >= this.width || y >= this.height || x < 0 || y < 0)
+		{
+			return moves
+		}
 
-			if (x + 1 < 8 && y + 2 < 8)
-			{
-				const piece = this.pieceAt(x + 1, y + 2)
+		const piece = this.pieceAt(x, y)
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y + 2))
-					{
-						moves.push(new Square(x + 1, y + 2))
-					}
-				}
-			}
+		if (piece == null)
+		{
+			return moves
+		}
 
-			if (x + 2 < 8 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x + 2, y + 1)
+		for (const to of this.pseudoLegalTargets(y * 16 + x, piece))
+		{
+			const xTo = to & 15
+			const yTo = to >> 4
 
-				if (piece == null || piece.colour != Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 2, y + 1))
-					{
-						moves.push(new Square(x + 2, y + 1))
-					}
-				}
+			if (!checkCheck || this.isLegal(x, y, xTo, yTo))
+			{
+				moves.push(new Square(xTo, yTo))
 			}
 		}
 
-		if (piece.is(Colour.Black, ChessPieceType.Knight))
+		if (checkCheck && piece.type == ChessPieceType.King)
 		{
-			if (x - 1 >= 0 && y - 2 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y - 2)
+			moves.push(...this.castlingMoves(x, y, piece.colour))
+		}
 
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y - 2))
-					{
-						moves.push(new Square(x - 1, y - 2))
-					}
-				}
-			}
+		return moves
+	}
+
+	/**
+	 * Returns the 0x88 indices of the squares a piece can move to,
+	 * without checking whether the move leaves its own king in check.
+	 * Castling moves are not included.
+	 */
+	pseudoLegalTargets(index: number, piece: ChessPiece)
+	{
+		const targets: number[] = []
+		const enemy = piece.colour == Colour.White ? Colour.Black : Colour.White
 
-			if (x - 2 >= 0 && y - 1 >= 0)
+		switch (piece.type)
+		{
+			case ChessPieceType.Pawn:
 			{
-				const piece = this.pieceAt(x - 2, y - 1)
+				const forward = piece.colour == Colour.White ? 16 : -16
+				const enPassantRank = piece.colour == Colour.White ? this.height - 4 : 3
+				const enemyEnPassant = piece.colour == Colour.White
+					? this.blackEnPassant : this.whiteEnPassant
+
+				const push = index + forward
 
-				if (piece == null || piece.colour != Colour.Black)
+				if (this.onBoard(push) && this.pieceAtIndex(push) == null)
 				{
-					if (!checkCheck || this.isLegal(x, y, x - 2, y - 1))
-					{
-						moves.push(new Square(x - 2, y - 1))
-					}
-				}
-			}
+					targets.push(push)
 
-			if (x + 1 < 8 && y - 2 >= 0)
-			{
-				const piece = this.pieceAt(x + 1, y - 2)
+					const doublePush = push + forward
 
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y - 2))
+					if (this.rules.canDoublePush(this, piece.colour, index >> 4)
+						&& this.pieceAtIndex(doublePush) == null)
 					{
-						moves.push(new Square(x + 1, y - 2))
+						targets.push(doublePush)
 					}
 				}
-			}
-
-			if (x + 2 < 8 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x + 2, y - 1)
 
-				if (piece == null || piece.colour != Colour.Black)
+				for (const capture of [ push - 1, push + 1 ])
 				{
-					if (!checkCheck || this.isLegal(x, y, x + 2, y - 1))
+					if (!this.onBoard(capture))
 					{
-						moves.push(new Square(x + 2, y - 1))
+						continue
 					}
-				}
-			}
 
-			if (x - 1 >= 0 && y + 2 < 8)
-			{
-				const piece = this.pieceAt(x - 1, y + 2)
+					const capturedPiece = this.pieceAtIndex(capture)
 
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y + 2))
+					if (capturedPiece != null && capturedPiece.colour == enemy)
 					{
-						moves.push(new Square(x - 1, y + 2))
+						targets.push(capture)
 					}
-				}
-			}
 
-			if (x - 2 >= 0 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x - 2, y + 1)
+					// The en passant flags of the enemy are only up to date
+					// while it is our turn.
 
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 2, y + 1))
+					if (capturedPiece == null && index >> 4 == enPassantRank
+						&& enemyEnPassant[capture & 15] && this.turn == piece.colour)
 					{
-						moves.push(new Square(x - 2, y + 1))
+						targets.push(capture)
 					}
 				}
+
+				break
 			}
 
-			if (x + 1 < 8 && y + 2 < 8)
+			case ChessPieceType.Knight:
 			{
-				const piece = this.pieceAt(x + 1, y + 2)
-
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y + 2))
-					{
-						moves.push(new Square(x + 1, y + 2))
-					}
-				}
+				this.pushJumpTargets(targets, this.tables.knightTargets[index], enemy)
+				break
 			}
 
-			if (x + 2 < 8 && y + 1 < 8)
+			case ChessPieceType.King:
 			{
-				const piece = this.pieceAt(x + 2, y + 1)
-
-				if (piece == null || piece.colour != Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 2, y + 1))
-					{
-						moves.push(new Square(x + 2, y + 1))
-					}
-				}
+				this.pushJumpTargets(targets, this.tables.kingTargets[index],
+					this.rules.kingCanCapture() ? enemy : null)
+				break
 			}
-		}
 
-		if (piece.is(Colour.White, ChessPieceType.Rook))
-		{
-			let line = new Square(x + 1, y)
-
-			while (line.x < 8)
+			case ChessPieceType.Bishop:
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
-
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
-
-				line.x++
+				this.pushSlidingTargets(targets, this.tables.bishopRays[index], enemy)
+				break
 			}
 
-			line = new Square(x - 1, y)
-
-			while (line.x >= 0)
+			case ChessPieceType.Rook:
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
-
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
-
-				line.x--
+				this.pushSlidingTargets(targets, this.tables.rookRays[index], enemy)
+				break
 			}
 
-			line = new Square(x, y + 1)
-
-			while (line.y < 8)
+			case ChessPieceType.Queen:
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
-
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
-
-				line.y++
+				this.pushSlidingTargets(targets, this.tables.bishopRays[index], enemy)
+				this.pushSlidingTargets(targets, this.tables.rookRays[index], enemy)
+				break
 			}
 
-			line = new Square(x, y - 1)
-
-			while (line.y >= 0)
+			case ChessPieceType.Archbishop:
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+				this.pushSlidingTargets(targets, this.tables.bishopRays[index], enemy)
+				this.pushJumpTargets(targets, this.tables.knightTargets[index], enemy)
+				break
+			}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+			case ChessPieceType.Chancellor:
+			{
+				this.pushSlidingTargets(targets, this.tables.rookRays[index], enemy)
+				this.pushJumpTargets(targets, this.tables.knightTargets[index], enemy)
+				break
+			}
 
-				line.y--
+			case ChessPieceType.Amazon:
+			{
+				this.pushSlidingTargets(targets, this.tables.bishopRays[index], enemy)
+				this.pushSlidingTargets(targets, this.tables.rookRays[index], enemy)
+				this.pushJumpTargets(targets, this.tables.knightTargets[index], enemy)
+				break
 			}
 		}
 
-		if (piece.is(Colour.Black, ChessPieceType.Rook))
+		return targets
+	}
+
+	/**
+	 * Adds the squares of a precomputed jump table that are empty or
+	 * hold an enemy piece to `targets`. Only empty squares are added
+	 * if `enemy` is null.
+	 */
+	pushJumpTargets(targets: number[], jumps: number[], enemy: Colour)
+	{
+		for (const to of jumps)
 		{
-			let line = new Square(x + 1, y)
+			const piece = this.pieceAtIndex(to)
 
-			while (line.x < 8)
+			if (piece == null || piece.colour == enemy)
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
-
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
-
-				line.x++
+				targets.push(to)
 			}
+		}
+	}
 
-			line = new Square(x - 1, y)
-
-			while (line.x >= 0)
+	/**
+	 * Adds the squares along precomputed rays up to and including the
+	 * first blocking enemy piece to `targets`.
+	 */
+	pushSlidingTargets(targets: number[], rays: number[][], enemy: Colour)
+	{
+		for (const ray of rays)
+		{
+			for (const to of ray)
 			{
-				const piece = this.pieceAt(line.x, line.y)
-
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+				const piece = this.pieceAtIndex(to)
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
+				if (piece == null)
 				{
-					moves.push(line.clone())
+					targets.push(to)
+					continue
 				}
 
-				if (piece != null && piece.colour == Colour.White)
+				if (piece.colour == enemy)
 				{
-					break
+					targets.push(to)
 				}
 
-				line.x--
+				break
 			}
+		}
+	}
+
+	/**
+	 * Returns the legal castling moves of a king.
+	 * In Chess960 a castling move goes to the square of the rook,
+	 * otherwise to the square the king ends up on.
+	 */
+	castlingMoves(x: number, y: number, colour: Colour)
+	{
+		const moves: Square[] = []
 
-			line = new Square(x, y + 1)
+		for (const short of [ true, false ])
+		{
+			const move = this.castlingMove(x, y, colour, short)
 
-			while (line.y < 8)
+			if (move != null)
 			{
-				const piece = this.pieceAt(line.x, line.y)
+				moves.push(move)
+			}
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		return moves
+	}
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+	/**
+	 * Returns the short or long castling move of a king, or null if it
+	 * is not legal. The king ends up on the c-file or next to the corner
+	 * on the short side, the g-file on an 8x8 board, with the rook next
+	 * to it on the inside, also in Chess960. Both pieces may only cross
+	 * empty squares, and the king may not be in check, pass through an
+	 * attacked square or end up on one.
+	 */
+	castlingMove(x: number, y: number, colour: Colour, short: boolean)
+	{
+		const backRank = colour == Colour.White ? 0 : this.height - 1
+		const enemy = colour == Colour.White ? Colour.Black : Colour.White
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		const allowed = colour == Colour.White
+			? (short ? this.whiteCastleShort : this.whiteCastleLong)
+			: (short ? this.blackCastleShort : this.blackCastleLong)
 
-				line.y++
-			}
+		const rookFile = this.castleRookFile(colour, short)
+		const rook = this.pieceAt(rookFile, y)
+		const kingTo = short ? this.width - 2 : 2
+		const rookTo = short ? this.width - 3 : 3
+
+		if (!allowed || !this.rules.canCastle()
+			|| y != backRank || (!this.chess960 && x != this.width >> 1)
+			|| rook == null || !rook.is(colour, ChessPieceType.Rook))
+		{
+			return null
+		}
 
-			line = new Square(x, y - 1)
+		const left = Math.min(x, rookFile, kingTo, rookTo)
+		const right = Math.max(x, rookFile, kingTo, rookTo)
 
-			while (line.y >= 0)
+		for (let file = left; file <= right; file++)
+		{
+			if (file != x && file != rookFile && this.pieceAt(file, y) != null)
 			{
-				const piece = this.pieceAt(line.x, line.y)
+				return null
+			}
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		// Lift the king and rook off the board while looking for attacks.
+		// In Chess960 the rook may shield the square the king ends up on.
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+		const king = this.pieceAt(x, y)
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		this.setAt(x, y, null)
+		this.setAt(rookFile, y, null)
 
-				line.y--
-			}
+		let attacked = false
+
+		for (let file = Math.min(x, kingTo); file <= Math.max(x, kingTo); file++)
+		{
+			attacked = attacked
+				|| this.rules.castlingSquareAttacked(this, new Square(file, y), enemy)
 		}
 
-		if (piece.is(Colour.White, ChessPieceType.Queen))
+		this.setAt(x, y, king)
+		this.setAt(rookFile, y, rook)
+
+		if (attacked)
 		{
-			let diag = new Square(x + 1, y + 1)
+			return null
+		}
 
-			while (diag.x < 8 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		return this.chess960 ? new Square(rookFile, y) : new Square(kingTo, y)
+	}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+	/**
+	 * Returns the file of the rook that castles short or long.
+	 */
+	castleRookFile(colour: Colour, short: boolean)
+	{
+		if (colour == Colour.White)
+		{
+			return short ? this.whiteCastleShortFile : this.whiteCastleLongFile
+		}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		return short ? this.blackCastleShortFile : this.blackCastleLongFile
+	}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+	/**
+	 * Returns a boolean indicating whether a move is a castling move.
+	 * In Chess960 the king moves onto its own rook, otherwise it moves
+	 * more than one square sideways.
+	 */
+	isCastlingMove(from: Square, to: Square)
+	{
+		const piece = this.pieceAt(from.x, from.y)
 
-				diag.x++
-				diag.y++
-			}
+		if (piece == null || piece.type != ChessPieceType.King)
+		{
+			return false
+		}
 
-			diag = new Square(x - 1, y - 1)
+		if (this.chess960)
+		{
+			const target = this.pieceAt(to.x, to.y)
 
-			while (diag.x >= 0 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+			return target != null && target.is(piece.colour, ChessPieceType.Rook)
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		return from.y == to.y && Math.abs(to.x - from.x) > 1
+	}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+	/**
+	 * Pretends to move a piece from one square to another.
+	 * Used for checking if a move is legal.
+	 */
+	pretend(from: Square, to: Square)
+	{
+		const oldPiece = this.pieceAt(to.x, to.y)
+		const movedPiece = this.pieceAt(from.x, from.y)
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		this.setAt(from.x, from.y, null)
+		this.setAt(to.x, to.y, movedPiece)
 
-				diag.x--
-				diag.y--
-			}
+		return oldPiece
+	}
 
-			diag = new Square(x + 1, y - 1)
+	/**
+	 * Undoes `ChessBoard.pretend()`.
+	 */
+	unpretend(from: Square, to: Square, oldPiece: ChessPiece)
+	{
+		this.setAt(from.x, from.y, this.pieceAt(to.x, to.y))
+		this.setAt(to.x, to.y, oldPiece)
+	}
 
-			while (diag.x < 8 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+	/**
+	 * Checks if a move is legal under the rules of the variant.
+	 * Usually only checks whether the move leaves the king of the moving
+	 * piece in check, not whether the piece can reach the square.
+	 */
+	isLegal(xFrom: number, yFrom: number, xTo: number, yTo: number)
+	{
+		if (this.pieceAt(xFrom, yFrom) == null)
+		{
+			return false
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		return this.rules.isLegal(this, new Square(xFrom, yFrom), new Square(xTo, yTo))
+	}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+	/**
+	 * Returns a boolean indicating whether a move leaves the king of the
+	 * moving piece in check.
+	 */
+	leavesKingInCheck(from: Square, to: Square)
+	{
+		const { x: xFrom, y: yFrom } = from
+		const { x: xTo, y: yTo } = to
+		const movedPiece = this.pieceAt(xFrom, yFrom)
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		// An en passant capture also removes the pawn next to the
+		// moving pawn, which might uncover an attack on the king.
 
-				diag.x++
-				diag.y--
-			}
+		const enPassantCapture = movedPiece.type == ChessPieceType.Pawn
+			&& xFrom != xTo && this.pieceAt(xTo, yTo) == null
 
-			diag = new Square(x - 1, y + 1)
+		const enPassantPiece = enPassantCapture ? this.pieceAt(xTo, yFrom) : null
 
-			while (diag.x >= 0 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		if (enPassantCapture)
+		{
+			this.setAt(xTo, yFrom, null)
+		}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		const oldPiece = this.pretend(from, to)
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+		const check = movedPiece.colour == Colour.White
+			? this.whiteInCheck() : this.blackInCheck()
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		this.unpretend(from, to, oldPiece)
 
-				diag.x--
-				diag.y++
-			}
+		if (enPassantCapture)
+		{
+			this.setAt(xTo, yFrom, enPassantPiece)
+		}
 
-			let line = new Square(x + 1, y)
+		return check
+	}
 
-			while (line.x < 8)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+	/**
+	 * Returns a boolean indicating whether a move would put the enemy
+	 * king in check. Only checks the squares the move changes, not
+	 * whether the move is legal.
+	 */
+	givesCheck(from: Square, to: Square)
+	{
+		const movedPiece = this.pieceAt(from.x, from.y)
+		const oldPiece = this.pretend(from, to)
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		const check = movedPiece.colour == Colour.White
+			? this.blackInCheck() : this.whiteInCheck()
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+		this.unpretend(from, to, oldPiece)
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		return check
+	}
 
-				line.x++
-			}
+	/**
+	 * Checks if dropping a piece of the side to move on an empty square
+	 * keeps its king out of check.
+	 */
+	isLegalDrop(type: ChessPieceType, to: Square)
+	{
+		this.setAt(to.x, to.y, new ChessPiece(type, this.turn))
 
-			line = new Square(x - 1, y)
+		const check = this.turn == Colour.White
+			? this.whiteInCheck() : this.blackInCheck()
 
-			while (line.x >= 0)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+		this.setAt(to.x, to.y, null)
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		return !check
+	}
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+	/**
+	 * Returns the squares the duck can move to after a piece moves from
+	 * `from` to `to` in Duck chess: those that are empty after the move.
+	 * The square the duck stands on is not empty, so it has to move.
+	 */
+	duckSquares(from: Square, to: Square)
+	{
+		const piece = this.pieceAt(from.x, from.y)
+		const vacated = [ from ]
+		let filled = [ to ]
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		if (this.isCastlingMove(from, to))
+		{
+			const short = to.x > from.x
 
-				line.x--
-			}
+			vacated.push(new Square(this.castleRookFile(piece.colour, short), from.y))
+			filled = [
+				new Square(short ? this.width - 2 : 2, from.y),
+				new Square(short ? this.width - 3 : 3, from.y)
+			]
+		}
+		else if (piece.type == ChessPieceType.Pawn && from.x != to.x
+			&& this.pieceAt(to.x, to.y) == null)
+		{
+			// En passant.
 
-			line = new Square(x, y + 1)
+			vacated.push(new Square(to.x, from.y))
+		}
 
-			while (line.y < 8)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+		const squares: Square[] = []
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		for (let y = 0; y < this.height; y++)
+		{
+			for (let x = 0; x < this.width; x++)
+			{
+				const square = new Square(x, y)
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+				const empty = this.pieceAt(x, y) == null
+					|| vacated.some(sq => sq.equals(square))
 
-				if (piece != null && piece.colour == Colour.Black)
+				if (empty && !filled.some(sq => sq.equals(square)))
 				{
-					break
+					squares.push(square)
 				}
-
-				line.y++
 			}
+		}
 
-			line = new Square(x, y - 1)
-
-			while (line.y >= 0)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+		return squares
+	}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+	/**
+	 * Returns all legal moves of the side to move.
+	 * Promotions are listed once for every piece the pawn can become.
+	 */
+	legalMoves()
+	{
+		const moves: Move[] = []
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+		// Out of check, only pinned pieces and the king can expose the king.
+		// En passant can uncover a check along the rank, so it is checked
+		// as well. Some variants have every move checked.
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		const inCheck = this.checkers().length != 0
+		const pins = new Map<number, Pin>()
 
-				line.y--
-			}
+		for (const pin of this.pinnedPieces(this.turn))
+		{
+			pins.set(pin.pinned.y * 16 + pin.pinned.x, pin)
 		}
 
-		if (piece.is(Colour.Black, ChessPieceType.Queen))
+		for (let y = 0; y < this.height; y++)
 		{
-			let diag = new Square(x + 1, y + 1)
-
-			while (diag.x < 8 && diag.y < 8)
+			for (let x = 0; x < this.width; x++)
 			{
-				const piece = this.pieceAt(diag.x, diag.y)
+				const piece = this.pieceAt(x, y)
 
-				if (piece != null && piece.colour == Colour.Black)
+				if (piece == null || piece.colour != this.turn)
 				{
-					break
+					continue
 				}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+				const from = new Square(x, y)
+				const pin = pins.get(y * 16 + x)
+				const targets: Square[] = []
 
-				if (piece != null && piece.colour == Colour.White)
+				for (const index of this.pseudoLegalTargets(y * 16 + x, piece))
 				{
-					break
-				}
-
-				diag.x++
-				diag.y++
-			}
-
-			diag = new Square(x - 1, y - 1)
+					const to = new Square(index & 15, index >> 4)
 
-			while (diag.x >= 0 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+					const enPassant = piece.type == ChessPieceType.Pawn
+						&& to.x != x && this.pieceAt(to.x, to.y) == null
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
+					if (inCheck || enPassant || piece.type == ChessPieceType.King
+						|| this.rules.checkEveryMove())
+					{
+						if (this.isLegal(x, y, to.x, to.y))
+						{
+							targets.push(to)
+						}
+					}
+					else if (pin == null || pin.ray.some(sq => sq.equals(to)))
+					{
+						targets.push(to)
+					}
 				}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
+				if (piece.type == ChessPieceType.King)
 				{
-					moves.push(diag.clone())
+					targets.push(...this.castlingMoves(x, y, piece.colour))
 				}
 
-				if (piece != null && piece.colour == Colour.White)
+				for (const to of targets)
 				{
-					break
-				}
-
-				diag.x--
-				diag.y--
-			}
+					const castle = this.isCastlingMove(from, to)
+					const capturedPiece = castle ? null : this.pieceAt(to.x, to.y)
 
-			diag = new Square(x + 1, y - 1)
+					const enPassant = piece.type == ChessPieceType.Pawn
+						&& to.x != x && capturedPiece == null
 
-			while (diag.x < 8 && diag.y >= 0)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+					const promotions = piece.type == ChessPieceType.Pawn
+						&& (to.y == 0 || to.y == this.height - 1)
+						? this.promotionTypes()
+						: [ undefined ]
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+					for (const promotion of promotions)
+					{
+						const move = new Move(from, to, promotion)
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+						move.capture = capturedPiece != null || enPassant
+						move.castle = castle
+						move.enPassant = enPassant
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
+						moves.push(move)
+					}
 				}
-
-				diag.x++
-				diag.y--
 			}
+		}
 
-			diag = new Square(x - 1, y + 1)
-
-			while (diag.x >= 0 && diag.y < 8)
-			{
-				const piece = this.pieceAt(diag.x, diag.y)
+		moves.push(...this.rules.extraMoves(this, inCheck))
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		return this.rules.filterMoves(this, moves)
+	}
 
-				if (!checkCheck || this.isLegal(x, y, diag.x, diag.y))
-				{
-					moves.push(diag.clone())
-				}
+	/**
+	 * Returns the piece types a pawn can promote to.
+	 */
+	promotionTypes()
+	{
+		return this.rules.promotionTypes()
+	}
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+	/**
+	 * Performs a UCI move.
+	 */
+	performUCIMove(uci: string)
+	{
+		this.play(Move.fromString(uci))
+	}
 
-				diag.x--
-				diag.y++
-			}
+	/**
+	 * Performs a move given in Standard Algebraic Notation, e.g. 'Nbd7'.
+	 */
+	performSANMove(san: string)
+	{
+		this.play(this.parseSAN(san))
+	}
 
-			let line = new Square(x + 1, y)
+	/**
+	 * Returns the Standard Algebraic Notation of a legal move in the
+	 * current position, e.g. 'Nbd7', 'exd6', 'e8=Q+' or 'O-O'.
+	 * Throws an `IllegalMoveError` if the move is not legal.
+	 */
+	toSAN(move: Move)
+	{
+		const { from, to, promotion, drop, duck } = move
 
-			while (line.x < 8)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+		if (drop != null)
+		{
+			this.validateDrop(drop, to)
+		}
+		else
+		{
+			this.validateMove(from, to, promotion, duck)
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		const piece = this.pieceAt(from.x, from.y)
+		let san = ''
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+		// Drops are written the same as in UCI, like N@f3.
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		if (drop != null)
+		{
+			san = move.toString()
+		}
+		else if (this.isCastlingMove(from, to))
+		{
+			san = to.x > from.x ? 'O-O' : 'O-O-O'
+		}
+		else if (piece.type == ChessPieceType.Pawn)
+		{
+			// Pawn captures are named after the file the pawn came from.
 
-				line.x++
+			if (from.x != to.x)
+			{
+				san += from.toString()[0] + 'x'
 			}
 
-			line = new Square(x - 1, y)
+			san += to.toString()
 
-			while (line.x >= 0)
+			if (promotion != null)
 			{
-				const piece = this.pieceAt(line.x, line.y)
+				san += '=' + new ChessPiece(promotion, Colour.White).toString()
+			}
+		}
+		else
+		{
+			san += new ChessPiece(piece.type, Colour.White).toString()
 
-				if (piece != null && piece.colour == Colour.Black)
+			// If another piece of the same type can move to the same square,
+			// add the file, rank or both of the moving piece.
+
+			const others = this.legalMoves()
+				.filter(other => other.drop == null && other.to.equals(to) && !other.from.equals(from))
+				.filter(other => this.pieceAt(other.from.x, other.from.y).type == piece.type)
+				.map(other => other.from)
+
+			if (others.length > 0)
+			{
+				if (!others.some(sq => sq.x == from.x))
 				{
-					break
+					san += from.toString()[0]
 				}
-
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
+				else if (!others.some(sq => sq.y == from.y))
 				{
-					moves.push(line.clone())
+					san += from.toString().slice(1)
 				}
-
-				if (piece != null && piece.colour == Colour.White)
+				else
 				{
-					break
+					san += from.toString()
 				}
-
-				line.x--
 			}
 
-			line = new Square(x, y + 1)
-
-			while (line.y < 8)
+			if (this.pieceAt(to.x, to.y) != null)
 			{
-				const piece = this.pieceAt(line.x, line.y)
+				san += 'x'
+			}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+			san += to.toString()
+		}
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+		// The square the duck moves to follows a comma, like e4,e5.
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		if (duck != null)
+		{
+			san += ',' + duck.toString()
+		}
 
-				line.y++
-			}
+		// Try the move to see whether it gives check or checkmate.
+		// Blowing up the king in Atomic is written as checkmate.
 
-			line = new Square(x, y - 1)
+		const [ check, canMove ] = this.tryMove(move, () => [
+			(this.turn == Colour.White ? this.whiteInCheck() : this.blackInCheck())
+				|| this.rules.outcome(this)?.termination == Termination.Explosion,
+			this.canMove()
+		])
 
-			while (line.y >= 0)
-			{
-				const piece = this.pieceAt(line.x, line.y)
+		if (check)
+		{
+			san += canMove ? '+' : '#'
+		}
 
-				if (piece != null && piece.colour == Colour.Black)
-				{
-					break
-				}
+		return san
+	}
 
-				if (!checkCheck || this.isLegal(x, y, line.x, line.y))
-				{
-					moves.push(line.clone())
-				}
+	/**
+	 * Finds the legal move described by a move in Standard Algebraic
+	 * Notation. Check marks and annotations such as '!?' are ignored.
+	 * Throws an `IllegalMoveError` if the move is malformed, illegal
+	 * or ambiguous.
+	 */
+	parseSAN(san: string)
+	{
+		const [ stripped, duckCoord ] = san.trim().replace(/[+#!?]+$/, '').split(',')
 
-				if (piece != null && piece.colour == Colour.White)
-				{
-					break
-				}
+		// The square the duck moves to in Duck chess, like e4,e5.
 
-				line.y--
-			}
+		if (duckCoord != null && !new RegExp(`^${ SQUARE_PATTERN }$`).test(duckCoord))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.BadSyntax, san,
+				'expected the square the duck moves to after the comma')
 		}
 
-		if (piece.is(Colour.White, ChessPieceType.King))
+		if (duckCoord == null && this.rules.hasDuck())
 		{
-			if (x + 1 < 8 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x + 1, y + 1)
+			throw new IllegalMoveError(IllegalMoveReason.DuckMissing, san,
+				'the duck has to be moved as well, like e4,e5')
+		}
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y + 1))
-					{
-						moves.push(new Square(x + 1, y + 1))
-					}
-				}
-			}
+		const duck = duckCoord == null ? null : Square.fromString(duckCoord)
+		const duckMatches = (move: Move) => duck == null ? move.duck == null : duck.equals(move.duck)
 
-			if (x + 1 < 8 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x + 1, y - 1)
+		// Castling.
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y - 1))
-					{
-						moves.push(new Square(x + 1, y - 1))
-					}
-				}
-			}
+		if (/^(O-O|O-O-O|0-0|0-0-0)$/.test(stripped))
+		{
+			const short = stripped.length == 3
+			const castle = this.legalMoves().find(move =>
+				move.castle && (move.to.x > move.from.x) == short && duckMatches(move))
 
-			if (x - 1 >= 0 && y + 1 < 8)
+			if (castle == null)
 			{
-				const piece = this.pieceAt(x - 1, y + 1)
-
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y + 1))
-					{
-						moves.push(new Square(x - 1, y + 1))
-					}
-				}
+				throw new IllegalMoveError(IllegalMoveReason.NotReachable, san,
+					'castling is not possible')
 			}
 
-			if (x - 1 >= 0 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y - 1)
+			return castle
+		}
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y - 1))
-					{
-						moves.push(new Square(x - 1, y - 1))
-					}
-				}
-			}
+		// Drops in Crazyhouse, like N@f3 or P@e4. The P may be left out.
 
-			if (x + 1 < 8)
-			{
-				const piece = this.pieceAt(x + 1, y)
+		const dropMatch = stripped.match(new RegExp(`^([QRBNP])?@(${ SQUARE_PATTERN })$`))
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y))
-					{
-						moves.push(new Square(x + 1, y))
-					}
-				}
-			}
+		if (dropMatch != null)
+		{
+			const type = dropMatch[1] == null
+				? ChessPieceType.Pawn
+				: ChessPiece.fromString(dropMatch[1]).type
 
-			if (x - 1 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y)
+			const to = Square.fromString(dropMatch[2])
+			const drop = this.legalMoves().find(move => move.drop == type && move.to.equals(to))
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y))
-					{
-						moves.push(new Square(x - 1, y))
-					}
-				}
+			if (drop == null)
+			{
+				throw new IllegalMoveError(IllegalMoveReason.NotReachable, san,
+					'the piece can not be dropped there')
 			}
 
-			if (y + 1 < 8)
-			{
-				const piece = this.pieceAt(x, y + 1)
+			return drop
+		}
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x, y + 1))
-					{
-						moves.push(new Square(x, y + 1))
-					}
-				}
-			}
+		const match = stripped.match(new RegExp(
+			`^([KQRBNACM])?([a-n])?(1[0-6]|[1-9])?x?(${ SQUARE_PATTERN })(?:=?([QRBNKACM]))?$`))
 
-			if (y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x, y - 1)
+		if (match == null)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.BadSyntax, san,
+				'expected a SAN move like e4, Nbd7 or O-O')
+		}
 
-				if (piece == null || piece.colour == Colour.Black)
-				{
-					if (!checkCheck || this.isLegal(x, y, x, y - 1))
-					{
-						moves.push(new Square(x, y - 1))
-					}
-				}
-			}
+		const [ , pieceChar, fromFile, fromRank, toCoord, promotionChar ] = match
 
-			if (this.whiteCastleShort
-				&& this.pieceAt(x + 1, y) == null
-				&& this.pieceAt(x + 2, y) == null
-				&& checkCheck
-				&& !this.whiteInCheck()
-				&& this.isLegal(x, y, x + 1, y)
-				&& this.isLegal(x, y, x + 2, y))
-			{
-				moves.push(new Square(x + 2, y))
-			}
+		const type = pieceChar == null
+			? ChessPieceType.Pawn
+			: ChessPiece.fromString(pieceChar).type
 
-			if (this.whiteCastleLong
-				&& this.pieceAt(x - 1, y) == null
-				&& this.pieceAt(x - 2, y) == null
-				&& this.pieceAt(x - 3, y) == null
-				&& checkCheck
-				&& !this.whiteInCheck()
-				&& this.isLegal(x, y, x - 1, y)
-				&& this.isLegal(x, y, x - 2, y)
-				&& this.isLegal(x, y, x - 3, y))
-			{
-				moves.push(new Square(x - 2, y))
-			}
+		const to = Square.fromString(toCoord)
+
+		const promotion = promotionChar == null
+			? undefined
+			: ChessPiece.fromString(promotionChar).type
+
+		const candidates = this.legalMoves().filter(move =>
+			move.drop == null
+			&& this.pieceAt(move.from.x, move.from.y).type == type
+			&& move.to.equals(to)
+			&& move.promotion == promotion
+			&& duckMatches(move)
+			&& (fromFile == null || move.from.toString()[0] == fromFile)
+			&& (fromRank == null || move.from.toString().slice(1) == fromRank))
+
+		if (candidates.length == 0)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, san,
+				'no piece can make this move')
 		}
 
-		if (piece.is(Colour.Black, ChessPieceType.King))
+		if (candidates.length > 1)
 		{
-			if (x + 1 < 8 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x + 1, y + 1)
+			throw new IllegalMoveError(IllegalMoveReason.BadSyntax, san,
+				'ambiguous, more than one piece can make this move')
+		}
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y + 1))
-					{
-						moves.push(new Square(x + 1, y + 1))
-					}
-				}
-			}
+		return candidates[0]
+	}
 
-			if (x + 1 < 8 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x + 1, y - 1)
+	/**
+	 * Checks that a move can be played in the current position.
+	 * Throws an `IllegalMoveError` with the reason if it can not.
+	 */
+	validateMove(from: Square, to: Square, promotion: ChessPieceType, duck?: Square)
+	{
+		const uci = new Move(from, to, promotion, duck).toString()
+		const onBoard = (sq: Square) => sq.x >= 0 && sq.x < this.width && sq.y >= 0 && sq.y < this.height
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y - 1))
-					{
-						moves.push(new Square(x + 1, y - 1))
-					}
-				}
-			}
+		if (!onBoard(from) || this.pieceAt(from.x, from.y) == null)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NoPiece, uci,
+				`there is no piece on ${ from }`)
+		}
 
-			if (x - 1 >= 0 && y + 1 < 8)
-			{
-				const piece = this.pieceAt(x - 1, y + 1)
+		const piece = this.pieceAt(from.x, from.y)
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y + 1))
-					{
-						moves.push(new Square(x - 1, y + 1))
-					}
-				}
-			}
+		if (piece.type == ChessPieceType.Duck)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.WrongColour, uci,
+				`the duck on ${ from } belongs to neither side`)
+		}
 
-			if (x - 1 >= 0 && y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y - 1)
+		if (piece.colour != this.turn)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.WrongColour, uci,
+				`the piece on ${ from } belongs to ${ piece.colour == Colour.White ? 'White' : 'Black' }`)
+		}
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y - 1))
-					{
-						moves.push(new Square(x - 1, y - 1))
-					}
-				}
+		if (!onBoard(to))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				`the piece on ${ from } can not leave the board`)
+		}
+
+		// Castling checks the king's path for attacks itself.
+
+		if (this.isCastlingMove(from, to))
+		{
+			if (!this.castlingMoves(from.x, from.y, piece.colour).some(sq => sq.equals(to)))
+			{
+				throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+					'castling is not possible')
 			}
 
-			if (x + 1 < 8)
+			if (promotion != null)
 			{
-				const piece = this.pieceAt(x + 1, y)
-
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x + 1, y))
-					{
-						moves.push(new Square(x + 1, y))
-					}
-				}
+				throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+					'only a pawn reaching the last rank can promote')
 			}
 
-			if (x - 1 >= 0)
-			{
-				const piece = this.pieceAt(x - 1, y)
+			this.validateDuck(from, to, duck, uci)
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x - 1, y))
-					{
-						moves.push(new Square(x - 1, y))
-					}
-				}
-			}
+			return
+		}
 
-			if (y + 1 < 8)
-			{
-				const piece = this.pieceAt(x, y + 1)
+		if (!this.pseudoLegalTargets(from.y * 16 + from.x, piece).includes(to.y * 16 + to.x))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				`the piece on ${ from } can not reach ${ to }`)
+		}
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x, y + 1))
-					{
-						moves.push(new Square(x, y + 1))
-					}
-				}
-			}
+		this.rules.validateMove(this, from, to, promotion)
 
-			if (y - 1 >= 0)
-			{
-				const piece = this.pieceAt(x, y - 1)
+		if (!this.isLegal(from.x, from.y, to.x, to.y))
+		{
+			// Tell a pinned piece apart from walking into check.
 
-				if (piece == null || piece.colour == Colour.White)
-				{
-					if (!checkCheck || this.isLegal(x, y, x, y - 1))
-					{
-						moves.push(new Square(x, y - 1))
-					}
-				}
-			}
+			const pin = this.pinnedPieces(piece.colour).find(pin => pin.pinned.equals(from))
 
-			if (this.blackCastleShort
-				&& this.pieceAt(x + 1, y) == null
-				&& this.pieceAt(x + 2, y) == null
-				&& checkCheck
-				&& !this.blackInCheck()
-				&& this.isLegal(x, y, x + 1, y)
-				&& this.isLegal(x, y, x + 2, y))
-			{
-				moves.push(new Square(x + 2, y))
-			}
+			throw new IllegalMoveError(IllegalMoveReason.LeavesKingInCheck, uci, pin != null
+				? `the piece on ${ from } is pinned by the piece on ${ pin.pinner }`
+				: 'the move leaves the king in check')
+		}
 
-			if (this.blackCastleLong
-				&& this.pieceAt(x - 1, y) == null
-				&& this.pieceAt(x - 2, y) == null
-				&& this.pieceAt(x - 3, y) == null
-				&& checkCheck
-				&& !this.blackInCheck()
-				&& this.isLegal(x, y, x - 1, y)
-				&& this.isLegal(x, y, x - 2, y)
-				&& this.isLegal(x, y, x - 3, y))
-			{
-				moves.push(new Square(x - 2, y))
-			}
+		const promoting = piece.type == ChessPieceType.Pawn && (to.y == 0 || to.y == this.height - 1)
+
+		if (promoting && !this.promotionTypes().includes(promotion))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.PromotionMissing, uci,
+				'a pawn reaching the last rank must be promoted')
 		}
 
-		return moves
+		if (!promoting && promotion != null)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				'only a pawn reaching the last rank can promote')
+		}
+
+		this.validateDuck(from, to, duck, uci)
 	}
 
 	/**
-	 * Pretends to move a piece from one square to another.
-	 * Used for checking if a move is legal.
+	 * Checks that the duck of a move in Duck chess can go where it is
+	 * placed, and that there is no duck in other variants.
+	 * Throws an `IllegalMoveError` with the reason if it can not.
 	 */
-	pretend(from: Square, to: Square)
+	validateDuck(from: Square, to: Square, duck: Square, uci: string)
 	{
-		const oldPiece = this.pieceAt(to.x, to.y)
-		const movedPiece = this.pieceAt(from.x, from.y)
+		if (!this.rules.hasDuck())
+		{
+			if (duck != null)
+			{
+				throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+					'there is no duck in this variant')
+			}
 
-		this.setAt(from.x, from.y, null)
-		this.setAt(to.x, to.y, movedPiece)
+			return
+		}
 
-		return oldPiece
-	}
+		if (duck == null)
+		{
+			throw new IllegalMoveError(IllegalMoveReason.DuckMissing, uci,
+				'the duck has to be moved as well, like e2e4,e4e5')
+		}
 
-	/**
-	 * Undoes `ChessBoard.pretend()`.
-	 */
-	unpretend(from: Square, to: Square, oldPiece: ChessPiece)
-	{
-		this.setAt(from.x, from.y, this.pieceAt(to.x, to.y))
-		this.setAt(to.x, to.y, oldPiece)
+		if (!this.duckSquares(from, to).some(sq => sq.equals(duck)))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				`the duck can not move to ${ duck }, only to another empty square`)
+		}
 	}
 
 	/**
-	 * Checks if a move is legal.
+	 * Checks that a piece can be dropped from the pocket of the side
+	 * to move in the current position.
+	 * Throws an `IllegalMoveError` with the reason if it can not.
 	 */
-	isLegal(xFrom: number, yFrom: number, xTo: number, yTo: number)
+	validateDrop(type: ChessPieceType, to: Square)
 	{
-		const from = new Square(xFrom, yFrom)
-		const to = new Square(xTo, yTo)
+		const uci = Move.drop(type, to).toString()
 
-		const oldPiece = this.pretend(from, to)
+		if (!this.rules.allowsDrops())
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				'pieces can not be dropped in this variant')
+		}
 
-		let check = false
+		const pocket = this.rules.pocket(this, this.turn)
 
-		if (this.turn == Colour.White)
+		if (!POCKET_PIECE_TYPES.includes(type) || pocket[type] == 0)
 		{
-			check = this.whiteInCheck()
+			throw new IllegalMoveError(IllegalMoveReason.NoPiece, uci,
+				`there is no ${ uci[0] } in the pocket`)
 		}
-		else
+
+		if (to.x < 0 || to.x >= this.width || to.y < 0 || to.y >= this.height
+			|| this.pieceAt(to.x, to.y) != null)
 		{
-			check = this.blackInCheck()
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				`pieces can only be dropped on empty squares`)
 		}
 
-		this.unpretend(from, to, oldPiece)
+		if (type == ChessPieceType.Pawn && (to.y == 0 || to.y == this.height - 1))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.NotReachable, uci,
+				'pawns can not be dropped on the first or last rank')
+		}
 
-		return !check
+		if (!this.isLegalDrop(type, to))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.LeavesKingInCheck, uci,
+				'the drop leaves the king in check')
+		}
 	}
 
 	/**
-	 * Performs a UCI move.
+	 * Performs a move on the board.
+	 * Returns the squares that were changed.
+	 * Throws an `IllegalMoveError` if the move is not legal.
 	 */
-	performUCIMove(uci: string)
+	move(fromSquare: Square, toSquare: Square, promotion: ChessPieceType, duck?: Square)
 	{
-		const from = Square.fromString(uci.slice(0, 2))
-		const to = Square.fromString(uci.slice(2, 4))
+		const { x: xFrom, y: yFrom } = fromSquare
+		const { x: xTo, y: yTo } = toSquare
 
-		let promotion: ChessPieceType
+		this.validateMove(fromSquare, toSquare, promotion, duck)
 
-		switch (uci.slice(4, 5))
-		{
-			case 'q':
-			{
-				promotion = ChessPieceType.Queen
-				break
-			}
+		const changedSquares: Square[] = []
+		const castling = this.isCastlingMove(fromSquare, toSquare)
 
-			case 'r':
-			{
-				promotion = ChessPieceType.Rook
-				break
-			}
+		this.beginMove()
 
-			case 'b':
-			{
-				promotion = ChessPieceType.Bishop
-				break
-			}
+		const movedPiece = this.pieceAt(xFrom, yFrom)
+		const capturedPiece = castling ? null : this.pieceAt(xTo, yTo)
 
-			case 'n':
+		if (castling)
+		{
+			// The king and rook end up on the g- and f-file when castling
+			// short on an 8x8 board, or on the c- and d-file when castling
+			// long.
+
+			const short = xTo > xFrom
+			const rookFile = this.castleRookFile(movedPiece.colour, short)
+			const rook = this.pieceAt(rookFile, yFrom)
+			const kingTo = short ? this.width - 2 : 2
+			const rookTo = short ? this.width - 3 : 3
+
+			this.setAt(xFrom, yFrom, null)
+			this.setAt(rookFile, yFrom, null)
+			this.setAt(kingTo, yFrom, movedPiece)
+			this.setAt(rookTo, yFrom, rook)
+
+			for (const x of new Set([ xFrom, rookFile, kingTo, rookTo ]))
 			{
-				promotion = ChessPieceType.Knight
-				break
+				changedSquares.push(new Square(x, yFrom))
 			}
 		}
+		else
+		{
+			this.setAt(xTo, yTo, movedPiece)
+			this.setAt(xFrom, yFrom, null)
 
-		this.move(from, to, promotion)
-	}
+			changedSquares.push(new Square(xFrom, yFrom))
+			changedSquares.push(new Square(xTo, yTo))
+		}
 
-	/**
-	 * Performs a move on the board.
-	 * Returns the squares that were changed.
-	 */
-	move(fromSquare: Square, toSquare: Square, promotion: ChessPieceType)
-	{
-		const { x: xFrom, y: yFrom } = fromSquare
-		const { x: xTo, y: yTo } = toSquare
+		// Keep track of castling legality.
+		// A rook that leaves its square, or is captured there,
+		// takes the castling right on its side with it.
 
-		const numPiecesBefore = this.countPieces()
-		const changedSquares: Square[] = []
+		if (movedPiece.is(Colour.White, ChessPieceType.King))
+		{
+			this.whiteCastleShort = false
+			this.whiteCastleLong = false
+		}
 
-		if (!this.isLegal(xFrom, yFrom, xTo, yTo))
+		if (movedPiece.is(Colour.Black, ChessPieceType.King))
 		{
-			return changedSquares
+			this.blackCastleShort = false
+			this.blackCastleLong = false
 		}
 
-		const movedPiece = this.board[yFrom][xFrom]
-		const capturedPiece = this.board[yTo][xTo]
+		const movedFromOrTo = (x: number, y: number) =>
+			(xFrom == x && yFrom == y) || (xTo == x && yTo == y)
 
-		this.board[yTo][xTo] = movedPiece
-		this.board[yFrom][xFrom] = null
+		if (movedFromOrTo(this.whiteCastleShortFile, 0))
+		{
+			this.whiteCastleShort = false
+		}
 
-		changedSquares.push(new Square(xFrom, yFrom))
-		changedSquares.push(new Square(xTo, yTo))
+		if (movedFromOrTo(this.whiteCastleLongFile, 0))
+		{
+			this.whiteCastleLong = false
+		}
 
-		// Castling
+		if (movedFromOrTo(this.blackCastleShortFile, this.height - 1))
+		{
+			this.blackCastleShort = false
+		}
 
-		if (movedPiece.is(Colour.White, ChessPieceType.King) && xFrom - xTo == 2)
+		if (movedFromOrTo(this.blackCastleLongFile, this.height - 1))
 		{
-			this.board[yTo][3] = new ChessPiece(ChessPieceType.Rook, Colour.White)
-			this.board[yTo][0] = null
+			this.blackCastleLong = false
+		}
+
+		// En passant
 
-			changedSquares.push(new Square(3, yTo))
-			changedSquares.push(new Square(0, yTo))
+		if (this.turn == Colour.White)
+		{
+			this.whiteEnPassant = Array(this.width).fill(false)
+		}
+		else
+		{
+			this.blackEnPassant = Array(this.width).fill(false)
 		}
 
-		if (movedPiece.is(Colour.White, ChessPieceType.King) && xTo - xFrom == 2)
+		// A pawn moving two squares from the first rank in Horde can not be
+		// captured en passant.
+
+		if (movedPiece.is(Colour.White, ChessPieceType.Pawn)
+			&& yFrom == 1 && yTo == 3)
 		{
-			this.board[yTo][5] = new ChessPiece(ChessPieceType.Rook, Colour.White)
-			this.board[yTo][7] = null
+			this.whiteEnPassant[xFrom] = true
+		}
 
-			changedSquares.push(new Square(5, yTo))
-			changedSquares.push(new Square(7, yTo))
+		if (movedPiece.is(Colour.Black, ChessPieceType.Pawn)
+			&& yFrom == this.height - 2 && yTo == this.height - 4)
+		{
+			this.blackEnPassant[xFrom] = true
 		}
 
-		if (movedPiece.is(Colour.Black, ChessPieceType.King) && xFrom - xTo == 2)
+		if (movedPiece.is(Colour.White, ChessPieceType.Pawn)
+			&& this.blackEnPassant[xTo]
+			&& capturedPiece == null
+			&& xTo != xFrom)
 		{
-			this.board[yTo][3] = new ChessPiece(ChessPieceType.Rook, Colour.Black)
-			this.board[yTo][0] = null
+			this.setAt(xTo, yFrom, null)
 
-			changedSquares.push(new Square(3, yTo))
-			changedSquares.push(new Square(0, yTo))
+			changedSquares.push(new Square(xTo, yFrom))
 		}
 
-		if (movedPiece.is(Colour.Black, ChessPieceType.King) && xTo - xFrom == 2)
+		if (movedPiece.is(Colour.Black, ChessPieceType.Pawn)
+			&& this.whiteEnPassant[xTo]
+			&& capturedPiece == null
+			&& xTo != xFrom)
 		{
-			this.board[yTo][5] = new ChessPiece(ChessPieceType.Rook, Colour.Black)
-			this.board[yTo][7] = null
+			this.setAt(xTo, yFrom, null)
 
-			changedSquares.push(new Square(5, yTo))
-			changedSquares.push(new Square(7, yTo))
+			changedSquares.push(new Square(xTo, yFrom))
 		}
 
-		// Keep track of castling legality
+		// Pawn promotion.
+		// Promoted pieces are remembered, they turn back into pawns when
+		// captured in Crazyhouse.
 
-		if (movedPiece.is(Colour.White, ChessPieceType.King))
+		if (movedPiece.type == ChessPieceType.Pawn && (yTo == 0 || yTo == this.height - 1))
 		{
-			this.whiteCastleShort = false
-			this.whiteCastleLong = false
+			const promotedPiece = new ChessPiece(promotion, movedPiece.colour)
+
+			promotedPiece.promoted = true
+			this.setAt(xTo, yTo, promotedPiece)
 		}
 
-		if (this.whiteCastleShort
-			&& movedPiece.is(Colour.White, ChessPieceType.Rook)
-			&& xFrom == 0 && this.pieceAt(7, 0) == null)
-		{
-			this.whiteCastleShort = false
+		const played = new Move(new Square(xFrom, yFrom), new Square(xTo, yTo), promotion, duck)
+
+		played.enPassant = movedPiece.type == ChessPieceType.Pawn
+			&& xTo != xFrom && capturedPiece == null
+
+		played.capture = capturedPiece != null || played.enPassant
+		played.castle = castling
+
+		// Effects of the variant, such as explosions, filling pockets or
+		// moving the duck.
+
+		this.rules.afterMove(this, played, capturedPiece, changedSquares)
+		this.endMove(played, movedPiece.type == ChessPieceType.Pawn || played.capture)
+
+		return changedSquares
+	}
+
+	/**
+	 * Saves the state from before a move, so it can be undone.
+	 * Called by `move()` and `drop()` before they change the board.
+	 */
+	beginMove()
+	{
+		// Save the state from before the move, so it can be undone.
+		// `setAt()` records every square that is overwritten from here on.
+
+		this.undoInProgress = {
+			squares: [],
+			whiteCastleShort: this.whiteCastleShort,
+			whiteCastleLong: this.whiteCastleLong,
+			blackCastleShort: this.blackCastleShort,
+			blackCastleLong: this.blackCastleLong,
+			whiteEnPassant: this.whiteEnPassant.slice(),
+			blackEnPassant: this.blackEnPassant.slice(),
+			fiftyMoveRule: this.fiftyMoveRule,
+			drawClaimed: this.drawClaimed,
+			variantState: this.rules.copyState(this.variantState),
+			zobristKey: this.zobristKey,
+			historyKey: null
 		}
 
-		if (this.whiteCastleLong
-			&& movedPiece.is(Colour.White, ChessPieceType.Rook)
-			&& xFrom == 7 && this.pieceAt(0, 0) == null)
+		this.undoStack.push(this.undoInProgress)
+
+		// Take the side to move, castling rights, en passant file and the
+		// rest of the state out of the Zobrist key. They are put back once the move has been made.
+
+		this.zobristKey ^= this.zobristStateKey()
+	}
+
+	/**
+	 * Hands the turn to the other side once a move has changed the board,
+	 * and keeps track of the move list, the 50 move rule, repetitions
+	 * and draw claims. `resetsClock` is set for pawn moves and captures,
+	 * which reset the 50 move rule.
+	 */
+	endMove(move: Move, resetsClock: boolean)
+	{
+		// Update turn.
+
+		this.turn = this.turn == Colour.White
+			? Colour.Black : Colour.White
+
+		this.turnNumber++
+
+		this.rules.afterTurn(this)
+
+		this.zobristKey ^= this.zobristStateKey()
+		this.undoInProgress = null
+
+		// Save the move.
+
+		this.moves.push(move)
+
+		// Keep track of the 50 move rule.
+
+		if (resetsClock)
 		{
-			this.whiteCastleLong = false
+			this.fiftyMoveRule = 0
 		}
-
-		if (movedPiece.is(Colour.Black, ChessPieceType.King))
+		else
 		{
-			this.blackCastleShort = false
-			this.blackCastleLong = false
+			this.fiftyMoveRule++
 		}
 
-		if (this.blackCastleShort
-			&& movedPiece.is(Colour.Black, ChessPieceType.Rook)
-			&& xFrom == 0 && this.pieceAt(0, 7) == null)
+		// Keep track of repetitions.
+
+		const hash = this.boardStateHash()
+
+		this.history.set(hash, this.repetitions() + 1)
+		this.undoStack[this.undoStack.length - 1].historyKey = hash
+
+		// Claim a draw if the draw policy says so.
+
+		const claimable = this.claimableDraw()
+
+		if (claimable != null && this.drawClaimed == null && !this.tryingMove)
 		{
-			this.blackCastleShort = false
+			const claim = typeof this.drawPolicy == 'function'
+				? this.drawPolicy(this, claimable)
+				: this.drawPolicy == DrawPolicy.Claim
+
+			if (claim)
+			{
+				this.drawClaimed = claimable
+			}
 		}
+	}
+
+	/**
+	 * Plays a move only to look at the position after it, and takes it
+	 * back. The draw policy is not asked to claim draws meanwhile.
+	 * Returns what `look` returns.
+	 */
+	tryMove<T>(move: Move, look: () => T)
+	{
+		const tryingMove = this.tryingMove
+
+		this.tryingMove = true
 
-		if (this.blackCastleLong
-			&& movedPiece.is(Colour.Black, ChessPieceType.Rook)
-			&& xFrom == 7 && this.pieceAt(7, 7) == null)
+		try
 		{
-			this.blackCastleLong = false
+			this.play(move)
+
+			const result = look()
+
+			this.undo()
+
+			return result
 		}
+		finally
+		{
+			this.tryingMove = tryingMove
+		}
+	}
 
-		// En passant
+	/**
+	 * Drops a piece from the pocket of the side to move onto an empty
+	 * square in Crazyhouse.
+	 * Returns the squares that were changed.
+	 * Throws an `IllegalMoveError` if the drop is not legal.
+	 */
+	drop(type: ChessPieceType, square: Square)
+	{
+		this.validateDrop(type, square)
+
+		const changedSquares = [ square ]
+
+		this.beginMove()
+
+		this.setAt(square.x, square.y, new ChessPiece(type, this.turn))
 
 		if (this.turn == Colour.White)
 		{
-			this.whiteEnPassant = Array(8).fill(false)
+			this.whiteEnPassant = Array(this.width).fill(false)
 		}
 		else
 		{
-			this.blackEnPassant = Array(8).fill(false)
+			this.blackEnPassant = Array(this.width).fill(false)
 		}
 
-		if (movedPiece.is(Colour.White, ChessPieceType.Pawn)
-			&& yTo - yFrom == 2)
-		{
-			this.whiteEnPassant[xFrom] = true
-		}
+		// The rules take the piece out of the pocket.
+
+		const played = Move.drop(type, square)
+
+		this.rules.afterMove(this, played, null, changedSquares)
+
+		// Dropping a pawn counts as a pawn move.
+
+		this.endMove(played, type == ChessPieceType.Pawn)
+
+		return changedSquares
+	}
+
+	/**
+	 * Plays a move as returned by `legalMoves()` or `Move.fromString()`,
+	 * which may be a drop.
+	 * Returns the squares that were changed.
+	 * Throws an `IllegalMoveError` if the move is not legal.
+	 */
+	play(move: Move)
+	{
+		return move.drop != null
+			? this.drop(move.drop, move.to)
+			: this.move(move.from, move.to, move.promotion, move.duck)
+	}
+
+	/**
+	 * Takes back the last move, restoring the exact state from before it.
+	 * Returns the squares that were changed,
+	 * or an empty array if there is no move to take back.
+	 */
+	undo()
+	{
+		const changedSquares: Square[] = []
+		const undo = this.undoStack.pop()
 
-		if (movedPiece.is(Colour.Black, ChessPieceType.Pawn)
-			&& yFrom - yTo == 2)
+		if (undo == null)
 		{
-			this.blackEnPassant[xFrom] = true
+			return changedSquares
 		}
 
-		if (movedPiece.is(Colour.White, ChessPieceType.Pawn)
-			&& this.blackEnPassant[xTo]
-			&& capturedPiece == null
-			&& xTo != xFrom)
+		// Undo the repetition count of the position.
+
+		if (undo.historyKey != null)
 		{
-			this.board[yFrom][xTo] = null
+			const repetitions = this.history.get(undo.historyKey) - 1
 
-			changedSquares.push(new Square(xTo, yFrom))
+			if (repetitions == 0)
+			{
+				this.history.delete(undo.historyKey)
+			}
+			else
+			{
+				this.history.set(undo.historyKey, repetitions)
+			}
 		}
 
-		if (movedPiece.is(Colour.Black, ChessPieceType.Pawn)
-			&& this.whiteEnPassant[xTo]
-			&& capturedPiece == null
-			&& xTo != xFrom)
+		// Put back the overwritten pieces, last one first.
+		// The board is written directly, the Zobrist key is restored below.
+
+		for (let i = undo.squares.length - 1; i >= 0; i--)
 		{
-			this.board[yFrom][xTo] = null
+			const { x, y, piece } = undo.squares[i]
 
-			changedSquares.push(new Square(xTo, yFrom))
+			this.board[y][x] = piece
+
+			if (!changedSquares.some(sq => sq.x == x && sq.y == y))
+			{
+				changedSquares.push(new Square(x, y))
+			}
 		}
 
-		// Pawn promotion
+		this.whiteCastleShort = undo.whiteCastleShort
+		this.whiteCastleLong = undo.whiteCastleLong
 
-		if (movedPiece.is(Colour.White, ChessPieceType.Pawn) && yTo == 7)
-		{
-			switch (promotion)
-			{
-				case ChessPieceType.Queen:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Queen, Colour.White)
-					break
-				}
+		this.blackCastleShort = undo.blackCastleShort
+		this.blackCastleLong = undo.blackCastleLong
 
-				case ChessPieceType.Rook:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Rook, Colour.White)
-					break
-				}
+		this.whiteEnPassant = undo.whiteEnPassant
+		this.blackEnPassant = undo.blackEnPassant
 
-				case ChessPieceType.Bishop:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Bishop, Colour.White)
-					break
-				}
+		this.turn = this.turn == Colour.White
+			? Colour.Black : Colour.White
 
-				case ChessPieceType.Knight:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Knight, Colour.White)
-					break
-				}
-			}
-		}
+		this.turnNumber--
+		this.moves.pop()
 
-		if (movedPiece.is(Colour.Black, ChessPieceType.Pawn) && yTo == 0)
-		{
-			switch (promotion)
-			{
-				case ChessPieceType.Queen:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Queen, Colour.Black)
-					break
-				}
+		this.fiftyMoveRule = undo.fiftyMoveRule
+		this.drawClaimed = undo.drawClaimed
 
-				case ChessPieceType.Rook:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Rook, Colour.Black)
-					break
-				}
+		this.variantState = undo.variantState
 
-				case ChessPieceType.Bishop:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Bishop, Colour.Black)
-					break
-				}
+		this.zobristKey = undo.zobristKey
 
-				case ChessPieceType.Knight:
-				{
-					this.board[yTo][xTo] = new ChessPiece(
-						ChessPieceType.Knight, Colour.Black)
-					break
-				}
-			}
-		}
+		return changedSquares
+	}
 
-		// Update turn.
+	/**
+	 * Returns a copy of the board that can be changed
+	 * without affecting this board.
+	 */
+	clone()
+	{
+		const board = new ChessBoard(this.width, this.height)
 
-		this.turn = this.turn == Colour.White
-			? Colour.Black : Colour.White
+		board.board = this.board.map(rank => rank.slice())
 
-		this.turnNumber++
+		board.whiteCastleShort = this.whiteCastleShort
+		board.whiteCastleLong = this.whiteCastleLong
 
-		// Save the move.
+		board.blackCastleShort = this.blackCastleShort
+		board.blackCastleLong = this.blackCastleLong
 
-		this.moves.push(new Move(new Square(xFrom, yFrom),
-			new Square(xTo, yTo), promotion))
+		board.whiteCastleShortFile = this.whiteCastleShortFile
+		board.whiteCastleLongFile = this.whiteCastleLongFile
 
-		// Keep track of the 50 move rule.
+		board.blackCastleShortFile = this.blackCastleShortFile
+		board.blackCastleLongFile = this.blackCastleLongFile
 
-		const numPiecesAfter = this.countPieces()
-		const pawnMove = changedSquares.find(sq =>
-			this.pieceAt(sq.x, sq.y) != null
-			&& this.pieceAt(sq.x, sq.y).type
-				== ChessPieceType.Pawn) != null
+		board.chess960 = this.chess960
+		board.rules = this.rules
 
-		if (numPiecesBefore == numPiecesAfter && !pawnMove)
-		{
-			this.fiftyMoveRule++
+		board.whiteEnPassant = this.whiteEnPassant.slice()
+		board.blackEnPassant = this.blackEnPassant.slice()
 
-			if (this.fiftyMoveRule >= 100)
-			{
-				this.fiftyMoveRuleReached = true
-				return
-			}
-		}
-		else
+		board.turn = this.turn
+		board.turnNumber = this.turnNumber
+
+		board.moves = this.moves.slice()
+		board.fiftyMoveRule = this.fiftyMoveRule
+		board.history = new Map(this.history)
+
+		board.drawClaimed = this.drawClaimed
+		board.drawPolicy = this.drawPolicy
+
+		board.variantState = this.rules.copyState(this.variantState)
+
+		board.startFEN = this.startFEN
+
+		board.zobristKey = this.zobristKey
+
+		// `undo()` puts the saved arrays and variant state back on the
+		// board, where they are changed in place, so each board gets its own.
+
+		board.undoStack = this.undoStack.map(undo => ({
+			...undo,
+			whiteEnPassant: undo.whiteEnPassant.slice(),
+			blackEnPassant: undo.blackEnPassant.slice(),
+			variantState: this.rules.copyState(undo.variantState)
+		}))
+
+		board.undoInProgress = null
+
+		return board
+	}
+
+	/**
+	 * Counts the leaf nodes of the legal move tree of the given depth.
+	 * Used to check the move generator against known node counts.
+	 */
+	perft(depth: number)
+	{
+		if (depth == 0)
 		{
-			this.fiftyMoveRule = 0
+			return 1
 		}
 
-		// Keep track of the three-fold repetition rule.
+		let nodes = 0
 
-		if (this.history.has(this.boardStateHash()))
+		for (const count of this.perftDivide(depth).values())
 		{
-			this.history.set(this.boardStateHash(),
-				this.history.get(this.boardStateHash()) + 1)
+			nodes += count
+		}
+
+		return nodes
+	}
+
+	/**
+	 * Like `ChessBoard.perft()`, but returns the node count below every
+	 * legal move separately, keyed by the UCI string of the move.
+	 * Comparing these against another engine narrows down a bug.
+	 */
+	perftDivide(depth: number)
+	{
+		const divide = new Map<string, number>()
 
-			if (this.history.get(this.boardStateHash()) >= 3)
+		for (const move of this.legalMoves())
+		{
+			if (depth == 1)
 			{
-				this.threefoldRepetition = true
+				divide.set(move.toString(), 1)
+				continue
 			}
-		}
-		else
-		{
-			this.history.set(this.boardStateHash(), 1)
+
+			divide.set(move.toString(), this.tryMove(move, () => this.perft(depth - 1)))
 		}
 
-		return changedSquares
+		return divide
 	}
 
 	/**
@@ -2507,11 +3730,11 @@ export class ChessBoard
 	 */
 	print()
 	{
-		for (let y = 7; y >= 0; y--)
+		for (let y = this.height - 1; y >= 0; y--)
 		{
 			let line = ''
 
-			for (let x = 0; x < 8; x++)
+			for (let x = 0; x < this.width; x++)
 			{
 				let piece = this.pieceAt(x, y)
 
@@ -2531,6 +3754,8 @@ export class ChessBoard
 
 	/**
 	 * Returns whether there is insufficient material to give a checkmate.
+	 * Variants that are not won by checkmate decide for themselves,
+	 * see `VariantRules.insufficientMaterial()`.
 	 */
 	insufficientMaterial()
 	{
@@ -2541,9 +3766,9 @@ export class ChessBoard
 		let blackBishops = 0
 		let blackPieces = 0
 
-		for (let y = 0; y < 8; y++)
+		for (let y = 0; y < this.height; y++)
 		{
-			for (let x = 0; x < 8; x++)
+			for (let x = 0; x < this.width; x++)
 			{
 				let piece = this.pieceAt(x, y)
 
@@ -2553,10 +3778,10 @@ export class ChessBoard
 				}
 
 				if (piece.type == ChessPieceType.Pawn
-					|| piece.type == ChessPieceType.Queen
-					|| piece.type == ChessPieceType.Rook)
+					|| slidesStraight(piece.type)
+					|| piece.type == ChessPieceType.Archbishop)
 				{
-					// There is a pawn or queen or rook.
+					// There is a pawn, a queen, a rook or a fairy piece.
 					// There is no insufficient material.
 
 					return false
@@ -2662,65 +3887,352 @@ export class ChessBoard
 	}
 
 	/**
-	 * Generates an empty chess board.
+	 * Generates an empty chess board of the given size.
 	 */
-	static empty()
+	static empty(width = 8, height = 8)
 	{
-		const board = new ChessBoard()
+		if (width < 1 || width > MAX_FILES || height < 1 || height > MAX_RANKS)
+		{
+			throw new Error(`Invalid board size: ${ width }x${ height }`)
+		}
+
+		const board = new ChessBoard(width, height)
 
 		board.board = []
 
-		for (let y = 0; y < 8; y++)
+		for (let y = 0; y < height; y++)
 		{
-			board.board.push(new Array(8).fill(null))
+			board.board.push(new Array(width).fill(null))
 		}
 
+		board.zobristKey = board.computeZobristKey()
+
+		return board
+	}
+
+	/**
+	 * Generates a chess board with the starting position of a variant,
+	 * played by the rules of the variant or the given rules.
+	 */
+	static generateDefault(variant = Variant.Standard, rules = variantRules(variant))
+	{
+		const board = ChessBoard.empty(rules.width, rules.height)
+
+		board.rules = rules
+		board.variantState = rules.initialState()
+		rules.setUp(board)
+
+		board.zobristKey = board.computeZobristKey()
+		board.history.set(board.boardStateHash(), 1)
+
 		return board
 	}
 
 	/**
-	 * Generates a chess board with the standard starting position.
+	 * Generates a Chess960 board with the starting position of the given
+	 * index (0-959, Scharnagl numbering), or a random one.
+	 * Index 518 is the standard starting position.
 	 */
-	static generateDefault()
+	static generateChess960(index = Math.floor(Math.random() * 960))
 	{
+		if (!Number.isInteger(index) || index < 0 || index >= 960)
+		{
+			throw new Error(`Invalid Chess960 index: ${ index }`)
+		}
+
+		const backRank: ChessPieceType[] = Array(8).fill(null)
+		let n = index
+
+		// Bishops go on opposite colours: first the light-squared bishop
+		// on b, d, f or h, then the dark-squared bishop on a, c, e or g.
+
+		backRank[(n % 4) * 2 + 1] = ChessPieceType.Bishop
+		n = Math.floor(n / 4)
+
+		backRank[(n % 4) * 2] = ChessPieceType.Bishop
+		n = Math.floor(n / 4)
+
+		// The queen and knights go on the remaining empty squares.
+
+		const placeOnEmptySquare = (nth: number, type: ChessPieceType) =>
+		{
+			const emptySquares = [ 0, 1, 2, 3, 4, 5, 6, 7 ]
+				.filter(x => backRank[x] == null)
+
+			backRank[emptySquares[nth]] = type
+		}
+
+		placeOnEmptySquare(n % 6, ChessPieceType.Queen)
+		n = Math.floor(n / 6)
+
+		const knightPlacements = [
+			[ 0, 1 ], [ 0, 2 ], [ 0, 3 ], [ 0, 4 ], [ 1, 2 ],
+			[ 1, 3 ], [ 1, 4 ], [ 2, 3 ], [ 2, 4 ], [ 3, 4 ]
+		]
+
+		const [ firstKnight, secondKnight ] = knightPlacements[n]
+
+		// Place the second knight first, so the first knight's index
+		// into the empty squares is not shifted.
+
+		placeOnEmptySquare(secondKnight, ChessPieceType.Knight)
+		placeOnEmptySquare(firstKnight, ChessPieceType.Knight)
+
+		// The king goes between the two rooks.
+
+		placeOnEmptySquare(0, ChessPieceType.Rook)
+		placeOnEmptySquare(0, ChessPieceType.King)
+		placeOnEmptySquare(0, ChessPieceType.Rook)
+
 		const board = ChessBoard.empty()
 
-		// White back rank.
+		for (let x = 0; x < board.width; x++)
+		{
+			board.setAt(x, 0, new ChessPiece(backRank[x], Colour.White))
+			board.setAt(x, 1, new ChessPiece(ChessPieceType.Pawn, Colour.White))
+			board.setAt(x, 6, new ChessPiece(ChessPieceType.Pawn, Colour.Black))
+			board.setAt(x, 7, new ChessPiece(backRank[x], Colour.Black))
+		}
+
+		const rookFiles = [ 0, 1, 2, 3, 4, 5, 6, 7 ]
+			.filter(x => backRank[x] == ChessPieceType.Rook)
+
+		board.chess960 = true
+
+		board.whiteCastleLongFile = rookFiles[0]
+		board.whiteCastleShortFile = rookFiles[1]
+
+		board.blackCastleLongFile = rookFiles[0]
+		board.blackCastleShortFile = rookFiles[1]
+
+		board.startFEN = board.toFEN()
+		board.zobristKey = board.computeZobristKey()
+		board.history.set(board.boardStateHash(), 1)
+
+		return board
+	}
+
+	/**
+	 * Generates a chess board from a FEN string.
+	 * The halfmove clock and fullmove number may be omitted.
+	 * Castling rights may also be given as Shredder-FEN or X-FEN,
+	 * which switches the board to Chess960.
+	 */
+	static fromFEN(fen: string, chess960 = false, variant = Variant.Standard,
+		rules = variantRules(variant))
+	{
+		const board = ChessBoard.empty(rules.width, rules.height)
+
+		board.rules = rules
+		board.variantState = rules.initialState()
+
+		// Variants can extend FEN, e.g. with the checks given in Three-check.
+
+		const fields = rules.readFEN(board, fen.trim().split(/\s+/))
+
+		if (fields.length < 4 || fields.length > 6)
+		{
+			throw new Error(`Invalid FEN: expected 4 to 6 fields: ${ fen }`)
+		}
+
+		const [ placement, turn, castling, enPassant,
+			halfmoveClock = '0', fullmoveNumber = '1' ] = fields
+
+		const ranks = placement.split('/')
+
+		// Piece placement, from the last rank down to the first.
+		// A '~' after a piece marks it as promoted.
+
+		if (ranks.length != board.height)
+		{
+			throw new Error(`Invalid FEN: expected ${ board.height } ranks: ${ fen }`)
+		}
+
+		for (let i = 0; i < board.height; i++)
+		{
+			const y = board.height - 1 - i
+			let x = 0
+
+			// Wider boards can have ten or more empty squares in a row.
+
+			for (const [ char ] of ranks[i].matchAll(/\d+|./g))
+			{
+				if (/^\d+$/.test(char))
+				{
+					x += +char
+					continue
+				}
+
+				if (char == '~' && x > 0 && board.pieceAt(x - 1, y) != null)
+				{
+					board.pieceAt(x - 1, y).promoted = true
+					continue
+				}
+
+				const piece = ChessPiece.fromString(char)
+
+				if (piece == null || x >= board.width)
+				{
+					throw new Error(`Invalid FEN: bad rank ${ ranks[i] }: ${ fen }`)
+				}
+
+				board.setAt(x, y, piece)
+				x++
+			}
+
+			if (x != board.width)
+			{
+				throw new Error(`Invalid FEN: bad rank ${ ranks[i] }: ${ fen }`)
+			}
+		}
+
+		// Side to move.
+
+		if (turn != 'w' && turn != 'b')
+		{
+			throw new Error(`Invalid FEN: bad side to move ${ turn }: ${ fen }`)
+		}
+
+		board.turn = turn == 'w' ? Colour.White : Colour.Black
+
+		// Castling rights.
+		// Shredder-FEN and X-FEN name the file of the castling rook.
+		// KQkq refer to the outermost rook on that side of the king.
+
+		if (!/^(-|[KQkqA-Na-n]{1,4})$/.test(castling))
+		{
+			throw new Error(`Invalid FEN: bad castling rights ${ castling }: ${ fen }`)
+		}
 
-		board.set('a1', ChessPieceType.Rook, Colour.White)
-		board.set('b1', ChessPieceType.Knight, Colour.White)
-		board.set('c1', ChessPieceType.Bishop, Colour.White)
-		board.set('d1', ChessPieceType.Queen, Colour.White)
-		board.set('e1', ChessPieceType.King, Colour.White)
-		board.set('f1', ChessPieceType.Bishop, Colour.White)
-		board.set('g1', ChessPieceType.Knight, Colour.White)
-		board.set('h1', ChessPieceType.Rook, Colour.White)
+		board.chess960 = chess960 || /[^KQkq-]/.test(castling)
 
-		// White pawn rank.
+		board.whiteCastleShort = false
+		board.whiteCastleLong = false
+		board.blackCastleShort = false
+		board.blackCastleLong = false
 
-		for (const coord of [ 'a2', 'b2', 'c2', 'd2', 'e2', 'f2', 'g2', 'h2' ])
+		for (const char of castling.replace('-', ''))
 		{
-			board.set(coord, ChessPieceType.Pawn, Colour.White)
+			const colour = char == char.toUpperCase() ? Colour.White : Colour.Black
+			const y = colour == Colour.White ? 0 : board.height - 1
+			const king = board.kingIndex(colour)
+
+			if (king == -1 || king >> 4 != y)
+			{
+				throw new Error(`Invalid FEN: castling without a king on the back rank: ${ fen }`)
+			}
+
+			const kingFile = king & 15
+			const isRook = (x: number) => board.pieceAt(x, y) != null
+				&& board.pieceAt(x, y).is(colour, ChessPieceType.Rook)
+
+			let rookFile = -1
+
+			switch (char.toLowerCase())
+			{
+				case 'k':
+				{
+					for (let x = board.width - 1; x > kingFile && rookFile == -1; x--)
+					{
+						rookFile = isRook(x) ? x : -1
+					}
+
+					break
+				}
+
+				case 'q':
+				{
+					for (let x = 0; x < kingFile && rookFile == -1; x++)
+					{
+						rookFile = isRook(x) ? x : -1
+					}
+
+					break
+				}
+
+				default:
+				{
+					rookFile = char.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0)
+				}
+			}
+
+			if (rookFile == -1 || !isRook(rookFile))
+			{
+				throw new Error(`Invalid FEN: no rook to castle with for ${ char }: ${ fen }`)
+			}
+
+			// Castling from anywhere but the standard squares is Chess960.
+
+			if (kingFile != board.width >> 1 || (rookFile != 0 && rookFile != board.width - 1))
+			{
+				board.chess960 = true
+			}
+
+			if (colour == Colour.White && rookFile > kingFile)
+			{
+				board.whiteCastleShort = true
+				board.whiteCastleShortFile = rookFile
+			}
+
+			if (colour == Colour.White && rookFile < kingFile)
+			{
+				board.whiteCastleLong = true
+				board.whiteCastleLongFile = rookFile
+			}
+
+			if (colour == Colour.Black && rookFile > kingFile)
+			{
+				board.blackCastleShort = true
+				board.blackCastleShortFile = rookFile
+			}
+
+			if (colour == Colour.Black && rookFile < kingFile)
+			{
+				board.blackCastleLong = true
+				board.blackCastleLongFile = rookFile
+			}
 		}
 
+		// En passant target square.
+		// The target square lies behind the pawn that just moved.
+
+		if (enPassant != '-')
+		{
+			const square = new RegExp(`^${ SQUARE_PATTERN }$`).test(enPassant)
+				? Square.fromString(enPassant) : null
+
+			const rank = board.turn == Colour.Black ? 2 : board.height - 3
+
+			if (square == null || square.x >= board.width || square.y != rank)
+			{
+				throw new Error(`Invalid FEN: bad en passant square ${ enPassant }: ${ fen }`)
+			}
+
+			if (board.turn == Colour.Black)
+			{
+				board.whiteEnPassant[square.x] = true
+			}
+			else
+			{
+				board.blackEnPassant[square.x] = true
+			}
+		}
 
-		// Black pawn rank.
+		// Halfmove clock and fullmove number.
 
-		for (const coord of [ 'a7', 'b7', 'c7', 'd7', 'e7', 'f7', 'g7', 'h7' ])
+		if (!/^\d+$/.test(halfmoveClock) || !/^\d+$/.test(fullmoveNumber)
+			|| +fullmoveNumber < 1)
 		{
-			board.set(coord, ChessPieceType.Pawn, Colour.Black)
+			throw new Error(`Invalid FEN: bad move counters: ${ fen }`)
 		}
 
-		// Black back rank.
+		board.fiftyMoveRule = +halfmoveClock
+		board.turnNumber = (+fullmoveNumber - 1) * 2
+			+ (board.turn == Colour.Black ? 1 : 0)
 
-		board.set('a8', ChessPieceType.Rook, Colour.Black)
-		board.set('b8', ChessPieceType.Knight, Colour.Black)
-		board.set('c8', ChessPieceType.Bishop, Colour.Black)
-		board.set('d8', ChessPieceType.Queen, Colour.Black)
-		board.set('e8', ChessPieceType.King, Colour.Black)
-		board.set('f8', ChessPieceType.Bishop, Colour.Black)
-		board.set('g8', ChessPieceType.Knight, Colour.Black)
-		board.set('h8', ChessPieceType.Rook, Colour.Black)
+		board.startFEN = board.toFEN()
+		board.zobristKey = board.computeZobristKey()
+		board.history.set(board.boardStateHash(), 1)
 
 		return board
 	}
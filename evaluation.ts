@@ -0,0 +1,417 @@
+import { ChessBoard, ChessPiece, ChessPieceType, Colour, Square, Variant } from './chess.js'
+
+/**
+ * The static evaluation of a position.
+ */
+export interface Evaluation
+{
+	// In centipawns, from white's point of view.
+	score: number
+
+	// The score of every term of the evaluation, which add up to `score`.
+	terms: { [term: string]: number }
+}
+
+/**
+ * Scores positions without searching.
+ */
+export interface Evaluator
+{
+	evaluate(board: ChessBoard): Evaluation
+}
+
+/**
+ * Counts material with `ChessPiece.value()`.
+ * Fast, so it is the default evaluator of the search.
+ * In Antichess material is a burden, so it counts against its owner.
+ */
+export class MaterialEvaluator implements Evaluator
+{
+	evaluate(board: ChessBoard): Evaluation
+	{
+		const sign = board.variant == Variant.Antichess ? -1 : 1
+		let score = 0
+
+		for (let y = 0; y < board.height; y++)
+		{
+			for (let x = 0; x < board.width; x++)
+			{
+				const piece = board.pieceAt(x, y)
+
+				if (piece != null)
+				{
+					score += (piece.colour == Colour.White ? 100 : -100) * sign * piece.value()
+				}
+			}
+		}
+
+		return { score, terms: { material: score } }
+	}
+}
+
+// Piece values in the middlegame and endgame, by `ChessPieceType`.
+
+const MATERIAL_MIDDLEGAME = [ 0, 1025, 477, 365, 337, 82, 850, 900, 1350, 0 ]
+const MATERIAL_ENDGAME = [ 0, 936, 512, 297, 281, 94, 800, 900, 1300, 0 ]
+
+// How much each piece counts towards the game phase, by `ChessPieceType`.
+// All pieces of standard chess add up to `MAX_PHASE`.
+
+const PHASE_WEIGHTS = [ 0, 4, 2, 1, 1, 0, 3, 3, 5, 0 ]
+const MAX_PHASE = 24
+
+// Bonus per square a piece can move to, by `ChessPieceType`.
+
+const MOBILITY_MIDDLEGAME = [ 0, 1, 2, 5, 4, 0, 3, 2, 1, 0 ]
+const MOBILITY_ENDGAME = [ 0, 2, 4, 5, 4, 0, 3, 3, 2, 0 ]
+
+// Piece-square tables, seen from white with the 8th rank on top.
+// Boards of other sizes are scaled onto them.
+
+const PAWN_TABLE = [
+	  0,   0,   0,   0,   0,   0,   0,   0,
+	 50,  50,  50,  50,  50,  50,  50,  50,
+	 10,  10,  20,  30,  30,  20,  10,  10,
+	  5,   5,  10,  25,  25,  10,   5,   5,
+	  0,   0,   0,  20,  20,   0,   0,   0,
+	  5,  -5, -10,   0,   0, -10,  -5,   5,
+	  5,  10,  10, -20, -20,  10,  10,   5,
+	  0,   0,   0,   0,   0,   0,   0,   0
+]
+
+const KNIGHT_TABLE = [
+	-50, -40, -30, -30, -30, -30, -40, -50,
+	-40, -20,   0,   0,   0,   0, -20, -40,
+	-30,   0,  10,  15,  15,  10,   0, -30,
+	-30,   5,  15,  20,  20,  15,   5, -30,
+	-30,   0,  15,  20,  20,  15,   0, -30,
+	-30,   5,  10,  15,  15,  10,   5, -30,
+	-40, -20,   0,   5,   5,   0, -20, -40,
+	-50, -40, -30, -30, -30, -30, -40, -50
+]
+
+const BISHOP_TABLE = [
+	-20, -10, -10, -10, -10, -10, -10, -20,
+	-10,   0,   0,   0,   0,   0,   0, -10,
+	-10,   0,   5,  10,  10,   5,   0, -10,
+	-10,   5,   5,  10,  10,   5,   5, -10,
+	-10,   0,  10,  10,  10,  10,   0, -10,
+	-10,  10,  10,  10,  10,  10,  10, -10,
+	-10,   5,   0,   0,   0,   0,   5, -10,
+	-20, -10, -10, -10, -10, -10, -10, -20
+]
+
+const ROOK_TABLE = [
+	  0,   0,   0,   0,   0,   0,   0,   0,
+	  5,  10,  10,  10,  10,  10,  10,   5,
+	 -5,   0,   0,   0,   0,   0,   0,  -5,
+	 -5,   0,   0,   0,   0,   0,   0,  -5,
+	 -5,   0,   0,   0,   0,   0,   0,  -5,
+	 -5,   0,   0,   0,   0,   0,   0,  -5,
+	 -5,   0,   0,   0,   0,   0,   0,  -5,
+	  0,   0,   0,   5,   5,   0,   0,   0
+]
+
+const QUEEN_TABLE = [
+	-20, -10, -10,  -5,  -5, -10, -10, -20,
+	-10,   0,   0,   0,   0,   0,   0, -10,
+	-10,   0,   5,   5,   5,   5,   0, -10,
+	 -5,   0,   5,   5,   5,   5,   0,  -5,
+	  0,   0,   5,   5,   5,   5,   0,  -5,
+	-10,   5,   5,   5,   5,   5,   0, -10,
+	-10,   0,   5,   0,   0,   0,   0, -10,
+	-20, -10, -10,  -5,  -5, -10, -10, -20
+]
+
+// The king hides in the middlegame and walks to the centre in the endgame.
+
+const KING_MIDDLEGAME_TABLE = [
+	-30, -40, -40, -50, -50, -40, -40, -30,
+	-30, -40, -40, -50, -50, -40, -40, -30,
+	-30, -40, -40, -50, -50, -40, -40, -30,
+	-30, -40, -40, -50, -50, -40, -40, -30,
+	-20, -30, -30, -40, -40, -30, -30, -20,
+	-10, -20, -20, -20, -20, -20, -20, -10,
+	 20,  20,   0,   0,   0,   0,  20,  20,
+	 20,  30,  10,   0,   0,  10,  30,  20
+]
+
+const KING_ENDGAME_TABLE = [
+	-50, -40, -30, -20, -20, -30, -40, -50,
+	-30, -20, -10,   0,   0, -10, -20, -30,
+	-30, -10,  20,  30,  30,  20, -10, -30,
+	-30, -10,  30,  40,  40,  30, -10, -30,
+	-30, -10,  30,  40,  40,  30, -10, -30,
+	-30, -10,  20,  30,  30,  20, -10, -30,
+	-30, -30,   0,   0,   0,   0, -30, -30,
+	-50, -30, -30, -30, -30, -30, -30, -50
+]
+
+// The fairy pieces use the table of the piece they are most like.
+
+const PIECE_SQUARE_MIDDLEGAME = [
+	KING_MIDDLEGAME_TABLE, QUEEN_TABLE, ROOK_TABLE,
+	BISHOP_TABLE, KNIGHT_TABLE, PAWN_TABLE,
+	KNIGHT_TABLE, ROOK_TABLE, QUEEN_TABLE
+]
+
+const PIECE_SQUARE_ENDGAME = [
+	KING_ENDGAME_TABLE, QUEEN_TABLE, ROOK_TABLE,
+	BISHOP_TABLE, KNIGHT_TABLE, PAWN_TABLE,
+	KNIGHT_TABLE, ROOK_TABLE, QUEEN_TABLE
+]
+
+/**
+ * Scales a file or rank of a board with `size` files or ranks onto
+ * the 8 of the tables.
+ */
+const scaleToTable = (coord: number, size: number) =>
+	size == 8 ? coord : Math.round(coord * 7 / (size - 1))
+
+// Pawn structure, with passed pawn bonuses by how far the pawn has come.
+
+const DOUBLED_PAWN = [ -10, -20 ]
+const ISOLATED_PAWN = [ -10, -20 ]
+const PASSED_PAWN_MIDDLEGAME = [ 0, 5, 5, 10, 20, 35, 60, 0 ]
+const PASSED_PAWN_ENDGAME = [ 0, 10, 10, 20, 40, 70, 120, 0 ]
+
+// King safety only counts in the middlegame.
+
+const PAWN_SHIELD = 10
+const KING_ZONE_ATTACK = -10
+
+/**
+ * A middlegame and an endgame score, which are blended by the game phase.
+ */
+type TaperedScore = [ number, number ]
+
+/**
+ * Evaluates material, piece-square tables, mobility, king safety and
+ * pawn structure. Every term has a middlegame and an endgame score,
+ * which are blended depending on how much material is left.
+ */
+export class TaperedEvaluator implements Evaluator
+{
+	evaluate(board: ChessBoard): Evaluation
+	{
+		const phase = this.phase(board)
+
+		const taper = ([ middlegame, endgame ]: TaperedScore) =>
+			Math.round((middlegame * phase + endgame * (MAX_PHASE - phase)) / MAX_PHASE)
+
+		// Every term is white's score minus black's.
+
+		const both = (term: (colour: Colour) => TaperedScore) =>
+		{
+			const white = term(Colour.White)
+			const black = term(Colour.Black)
+
+			return taper([ white[0] - black[0], white[1] - black[1] ])
+		}
+
+		const terms = {
+			material: both(colour => this.material(board, colour)),
+			pieceSquares: both(colour => this.pieceSquares(board, colour)),
+			mobility: both(colour => this.mobility(board, colour)),
+			kingSafety: both(colour => this.kingSafety(board, colour)),
+			pawnStructure: both(colour => this.pawnStructure(board, colour))
+		}
+
+		const score = Object.values(terms).reduce((a, b) => a + b, 0)
+
+		return { score, terms }
+	}
+
+	/**
+	 * Returns the game phase, from `MAX_PHASE` with all pieces on the
+	 * board down to 0 with only kings and pawns.
+	 */
+	phase(board: ChessBoard)
+	{
+		let phase = 0
+
+		for (const { piece } of this.pieces(board))
+		{
+			phase += PHASE_WEIGHTS[piece.type]
+		}
+
+		// Promotions can push the phase past the start.
+
+		return Math.min(phase, MAX_PHASE)
+	}
+
+	/**
+	 * Lists the pieces on the board, optionally of one colour.
+	 */
+	pieces(board: ChessBoard, colour?: Colour)
+	{
+		const pieces: { piece: ChessPiece, x: number, y: number }[] = []
+
+		for (let y = 0; y < board.height; y++)
+		{
+			for (let x = 0; x < board.width; x++)
+			{
+				const piece = board.pieceAt(x, y)
+
+				if (piece != null && (colour == null || piece.colour == colour))
+				{
+					pieces.push({ piece, x, y })
+				}
+			}
+		}
+
+		return pieces
+	}
+
+	material(board: ChessBoard, colour: Colour): TaperedScore
+	{
+		const score: TaperedScore = [ 0, 0 ]
+
+		for (const { piece } of this.pieces(board, colour))
+		{
+			score[0] += MATERIAL_MIDDLEGAME[piece.type]
+			score[1] += MATERIAL_ENDGAME[piece.type]
+		}
+
+		return score
+	}
+
+	pieceSquares(board: ChessBoard, colour: Colour): TaperedScore
+	{
+		const score: TaperedScore = [ 0, 0 ]
+
+		for (const { piece, x, y } of this.pieces(board, colour))
+		{
+			// The tables have the 8th rank first, black's are mirrored.
+
+			const rank = scaleToTable(y, board.height)
+			const index = (colour == Colour.White ? 7 - rank : rank) * 8 + scaleToTable(x, board.width)
+
+			score[0] += PIECE_SQUARE_MIDDLEGAME[piece.type][index]
+			score[1] += PIECE_SQUARE_ENDGAME[piece.type][index]
+		}
+
+		return score
+	}
+
+	mobility(board: ChessBoard, colour: Colour): TaperedScore
+	{
+		const score: TaperedScore = [ 0, 0 ]
+
+		for (const { piece, x, y } of this.pieces(board, colour))
+		{
+			if (piece.type == ChessPieceType.King || piece.type == ChessPieceType.Pawn)
+			{
+				continue
+			}
+
+			const moves = board.pseudoLegalTargets(y * 16 + x, piece).length
+
+			score[0] += MOBILITY_MIDDLEGAME[piece.type] * moves
+			score[1] += MOBILITY_ENDGAME[piece.type] * moves
+		}
+
+		return score
+	}
+
+	kingSafety(board: ChessBoard, colour: Colour): TaperedScore
+	{
+		const king = board.kingIndex(colour)
+
+		if (king == -1)
+		{
+			return [ 0, 0 ]
+		}
+
+		const kingX = king & 15
+		const kingY = king >> 4
+		const forward = colour == Colour.White ? 1 : -1
+		const enemy = colour == Colour.White ? Colour.Black : Colour.White
+		let score = 0
+
+		for (let x = kingX - 1; x <= kingX + 1; x++)
+		{
+			for (let y = kingY - 1; y <= kingY + 1; y++)
+			{
+				if (x < 0 || x >= board.width || y < 0 || y >= board.height)
+				{
+					continue
+				}
+
+				score += KING_ZONE_ATTACK * board.attackersOf(new Square(x, y), enemy).length
+			}
+
+			// Pawns on the two ranks in front of the king shield it.
+
+			for (const y of [ kingY + forward, kingY + 2 * forward ])
+			{
+				if (x < 0 || x >= board.width || y < 0 || y >= board.height)
+				{
+					continue
+				}
+
+				const piece = board.pieceAt(x, y)
+
+				if (piece != null && piece.is(colour, ChessPieceType.Pawn))
+				{
+					score += PAWN_SHIELD
+				}
+			}
+		}
+
+		return [ score, 0 ]
+	}
+
+	pawnStructure(board: ChessBoard, colour: Colour): TaperedScore
+	{
+		const score: TaperedScore = [ 0, 0 ]
+		const enemy = colour == Colour.White ? Colour.Black : Colour.White
+
+		const pawns = this.pieces(board, colour)
+			.filter(({ piece }) => piece.type == ChessPieceType.Pawn)
+
+		const enemyPawns = this.pieces(board, enemy)
+			.filter(({ piece }) => piece.type == ChessPieceType.Pawn)
+
+		const pawnsOnFile = (x: number) => pawns.filter(pawn => pawn.x == x).length
+
+		for (let x = 0; x < board.width; x++)
+		{
+			const count = pawnsOnFile(x)
+
+			if (count > 1)
+			{
+				score[0] += DOUBLED_PAWN[0] * (count - 1)
+				score[1] += DOUBLED_PAWN[1] * (count - 1)
+			}
+
+			if (count > 0 && pawnsOnFile(x - 1) == 0 && pawnsOnFile(x + 1) == 0)
+			{
+				score[0] += ISOLATED_PAWN[0] * count
+				score[1] += ISOLATED_PAWN[1] * count
+			}
+		}
+
+		// A passed pawn has no enemy pawns in front of it on its own
+		// or a neighbouring file.
+
+		for (const pawn of pawns)
+		{
+			const inFront = (y: number) => colour == Colour.White ? y > pawn.y : y < pawn.y
+
+			const passed = !enemyPawns.some(enemyPawn =>
+				Math.abs(enemyPawn.x - pawn.x) <= 1 && inFront(enemyPawn.y))
+
+			if (passed)
+			{
+				const rank = scaleToTable(colour == Colour.White
+					? pawn.y : board.height - 1 - pawn.y, board.height)
+
+				score[0] += PASSED_PAWN_MIDDLEGAME[rank]
+				score[1] += PASSED_PAWN_ENDGAME[rank]
+			}
+		}
+
+		return score
+	}
+}
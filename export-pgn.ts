@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs'
+import { ChessBoard, DrawPolicy, Variant } from './chess.js'
+import { toPGN } from './pgn.js'
+import { Run } from './play-game.js'
+
+const log = readFileSync('log.jsonl', 'utf-8')
+const runs = log
+	.split('\n')
+	.filter(line => line.length != 0)
+	.map(line => JSON.parse(line) as Run)
+
+for (const run of runs)
+{
+	// Replay the run, so the PGN writer can see the moves and the ending.
+
+	const variant = run.variant ?? Variant.Standard
+
+	const board = run.startFEN == null
+		? ChessBoard.generateDefault(variant)
+		: ChessBoard.fromFEN(run.startFEN, false, variant)
+
+	board.drawPolicy = run.drawPolicy ?? DrawPolicy.Claim
+
+	for (const move of run.board.split(' ').filter(move => move.length != 0))
+	{
+		board.performUCIMove(move)
+	}
+
+	console.log(toPGN(board, run))
+}
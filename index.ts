@@ -1,13 +1,45 @@
-import { playGame } from './play-game.js'
+import { DrawPolicy, IllegalMoveError, Variant } from './chess.js'
+import { playGame, Run } from './play-game.js'
 import { appendFileSync } from 'fs'
 
 const DEPTH = +process.argv[2] || 2
+const START_FEN = process.argv[3]
+const CHESS960 = process.env.CHESS960 == 'true'
+const DRAW_POLICY = process.env.DRAW_POLICY == DrawPolicy.Automatic
+	? DrawPolicy.Automatic : DrawPolicy.Claim
+const BUILTIN = process.env.ENGINE == 'builtin'
+const VARIANT = Object.values(Variant).find(variant => variant == process.env.VARIANT)
+	?? Variant.Standard
 
 const main = async () =>
 {
 	while (true)
 	{
-		const res = await playGame(DEPTH)
+		let res: Run
+
+		try
+		{
+			res = await playGame(DEPTH, {
+				startFEN: START_FEN,
+				chess960: CHESS960,
+				drawPolicy: DRAW_POLICY,
+				variant: VARIANT,
+				builtin: BUILTIN
+			})
+		}
+		catch (error)
+		{
+			// Don't log a run whose board went out of sync with the engine.
+
+			if (error instanceof IllegalMoveError)
+			{
+				console.error(error.message)
+				continue
+			}
+
+			throw error
+		}
+
 		appendFileSync('log.jsonl', JSON.stringify(res) + '\n')
 		console.log(res)
 	}
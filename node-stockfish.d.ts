@@ -0,0 +1,58 @@
+/**
+ * The parts of node-stockfish this project uses.
+ * Declared here so the project also compiles where node-stockfish is not
+ * installed, since it is only loaded when Stockfish is actually used.
+ */
+declare module 'node-stockfish'
+{
+	import { ChildProcess } from 'child_process'
+
+	export interface StockfishAnalysisOptions
+	{
+		// The number of lines to search for.
+		lines?: number
+	}
+
+	export type StockfishScoreType = 'exact' | 'mate' | 'lowerbound' | 'upperbound'
+
+	export class StockfishScore
+	{
+		score: number
+		type: StockfishScoreType
+
+		toString(): string | number
+	}
+
+	export interface StockfishLine
+	{
+		score: StockfishScore
+		moves: string[]
+	}
+
+	export interface StockfishAnalysis
+	{
+		depth: number
+		lines: StockfishLine[]
+
+		// Set when the game has ended because of a lack of legal moves.
+		noLegalMoves?: boolean
+	}
+
+	export class StockfishInstance
+	{
+		static getInstance(): StockfishInstance
+
+		id: string
+		instance: ChildProcess
+
+		setBoardstateByFen(fen: string): void
+		setBoardstateByMoves(moves: string): void
+
+		startAnalysing(options: StockfishAnalysisOptions): void
+		stopAnalysing(): void
+
+		onAnalysisData(listener: (analysis: StockfishAnalysis) => void): void
+
+		terminate(): void
+	}
+}
@@ -0,0 +1,262 @@
+import type { StockfishInstance } from 'node-stockfish'
+import { ChessBoard, Variant } from './chess.js'
+
+/**
+ * A position with its known perft node counts.
+ * `nodes[i]` holds the node count at depth `i + 1`.
+ */
+interface PerftPosition
+{
+	name: string
+	fen: string
+	nodes: number[]
+	chess960?: boolean
+	variant?: Variant
+}
+
+// The standard perft positions from the Chess Programming Wiki.
+
+const POSITIONS: PerftPosition[] = [
+	{
+		name: 'Start position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+		nodes: [ 20, 400, 8902, 197281, 4865609 ]
+	},
+	{
+		name: 'Kiwipete',
+		fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+		nodes: [ 48, 2039, 97862, 4085603 ]
+	},
+	{
+		name: 'Position 3',
+		fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+		nodes: [ 14, 191, 2812, 43238, 674624 ]
+	},
+	{
+		name: 'Position 4',
+		fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+		nodes: [ 6, 264, 9467, 422333 ]
+	},
+	{
+		name: 'Position 4 (mirrored)',
+		fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+		nodes: [ 6, 264, 9467, 422333 ]
+	},
+	{
+		name: 'Position 5',
+		fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+		nodes: [ 44, 1486, 62379, 2103487 ]
+	},
+	{
+		name: 'Position 6',
+		fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+		nodes: [ 46, 2079, 89890, 3894594 ]
+	},
+	{
+		name: 'Chess960 position 1',
+		fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+		nodes: [ 21, 528, 12189, 326672 ],
+		chess960: true
+	},
+	{
+		name: 'Chess960 position 2',
+		fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+		nodes: [ 21, 807, 18002, 667366 ],
+		chess960: true
+	},
+	{
+		name: 'Chess960 position 3',
+		fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9',
+		nodes: [ 20, 479, 10471, 273318 ],
+		chess960: true
+	},
+	{
+		name: 'Antichess start position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1',
+		nodes: [ 20, 400, 8067, 153299 ],
+		variant: Variant.Antichess
+	},
+	{
+		name: 'Atomic start position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+		nodes: [ 20, 400, 8902, 197326 ],
+		variant: Variant.Atomic
+	},
+	{
+		name: 'Crazyhouse start position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1',
+		nodes: [ 20, 400, 8902, 197281, 4888832 ],
+		variant: Variant.Crazyhouse
+	},
+	{
+		name: 'Horde start position',
+		fen: 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1',
+		nodes: [ 8, 128, 1274, 23310, 265223 ],
+		variant: Variant.Horde
+	},
+	{
+		name: 'Racing Kings start position',
+		fen: '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1',
+		nodes: [ 21, 421, 11264, 296242 ],
+		variant: Variant.RacingKings
+	},
+	{
+		name: 'Duck chess start position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+		nodes: [ 640, 379440 ],
+		variant: Variant.Duck
+	},
+	{
+		name: 'Capablanca start position',
+		fen: 'rnabqkbcnr/pppppppppp/10/10/10/10/PPPPPPPPPP/RNABQKBCNR w KQkq - 0 1',
+		nodes: [ 28, 784, 25228, 805128 ],
+		variant: Variant.Capablanca
+	}
+]
+
+const MAX_DEPTH = +process.argv[2] || 3
+
+/**
+ * Asks Stockfish for the perft divide of a position.
+ * Resolves with the node count below every legal move.
+ */
+const stockfishDivide = (engine: StockfishInstance, board: ChessBoard, depth: number) =>
+	new Promise<Map<string, number>>(resolve =>
+{
+	const divide = new Map<string, number>()
+	let buffer = ''
+
+	const onData = (chunk: Buffer) =>
+	{
+		// Stockfish output may be split over multiple chunks.
+
+		buffer += chunk.toString()
+
+		const lines = buffer.split('\n')
+		buffer = lines.pop()
+
+		for (const line of lines)
+		{
+			const match = line.trim().match(/^([a-n]\d+[a-n]\d+[qrbnkacm]?(?:,[a-n]\d+[a-n]\d+)?|[QRBNP]@[a-n]\d+): (\d+)$/)
+
+			if (match != null)
+			{
+				divide.set(match[1], +match[2])
+			}
+
+			if (line.startsWith('Nodes searched'))
+			{
+				engine.instance.stdout.off('data', onData)
+				resolve(divide)
+			}
+		}
+	}
+
+	engine.instance.stdout.on('data', onData)
+	engine.instance.stdin.write(`setoption name UCI_Chess960 value ${ board.chess960 }\n`)
+	engine.instance.stdin.write(`setoption name UCI_Variant value ${ board.variant }\n`)
+	engine.setBoardstateByFen(board.toFEN())
+	engine.instance.stdin.write(`go perft ${ depth }\n`)
+})
+
+/**
+ * Compares our perft divide against Stockfish's and descends into every
+ * move whose node count differs.
+ * Returns the exact move paths that lead to a wrong move list.
+ */
+const findFailingPaths = async (engine: StockfishInstance, board: ChessBoard,
+	depth: number, path: string[] = []): Promise<string[]> =>
+{
+	const ours = board.perftDivide(depth)
+	const theirs = await stockfishDivide(engine, board, depth)
+	const failures: string[] = []
+
+	for (const move of new Set([ ...ours.keys(), ...theirs.keys() ]))
+	{
+		const movePath = [ ...path, move ].join(' ')
+
+		if (!theirs.has(move))
+		{
+			failures.push(`${ movePath }: illegal move generated`)
+			continue
+		}
+
+		if (!ours.has(move))
+		{
+			failures.push(`${ movePath }: legal move missing`)
+			continue
+		}
+
+		if (ours.get(move) != theirs.get(move))
+		{
+			board.performUCIMove(move)
+
+			failures.push(...await findFailingPaths(
+				engine, board, depth - 1, [ ...path, move ]))
+
+			board.undo()
+		}
+	}
+
+	return failures
+}
+
+const main = async () =>
+{
+	let engine: StockfishInstance = null
+	let failed = false
+
+	for (const position of POSITIONS)
+	{
+		const maxDepth = Math.min(MAX_DEPTH, position.nodes.length)
+
+		for (let depth = 1; depth <= maxDepth; depth++)
+		{
+			const board = ChessBoard.fromFEN(position.fen, position.chess960, position.variant)
+			const expected = position.nodes[depth - 1]
+
+			const start = Date.now()
+			const nodes = board.perft(depth)
+			const time = Date.now() - start
+
+			console.log(`${ position.name }, depth ${ depth }: ${ nodes } nodes, `
+				+ `expected ${ expected } (${ time }ms) ${ nodes == expected ? 'ok' : 'FAIL' }`)
+
+			if (nodes == expected)
+			{
+				continue
+			}
+
+			// Find out where we went wrong.
+			// The deeper depths of this position will fail as well.
+
+			failed = true
+
+			// Stockfish is only loaded to break a failure down, so the
+			// suite also runs where it is not installed.
+
+			if (engine == null)
+			{
+				const { StockfishInstance } = await import('node-stockfish')
+
+				engine = StockfishInstance.getInstance()
+			}
+
+			for (const failingPath of await findFailingPaths(engine, board, depth))
+			{
+				console.log(`* ${ failingPath }`)
+			}
+
+			break
+		}
+	}
+
+	if (engine != null)
+	{
+		engine.terminate()
+	}
+
+	process.exitCode = failed ? 1 : 0
+}
+
+main()
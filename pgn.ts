@@ -0,0 +1,252 @@
+import { ChessBoard, Colour, describeOutcome, GameOutcome, Variant } from './chess.js'
+import { Run } from './play-game.js'
+
+/**
+ * A game read from PGN.
+ * Holds the tag pairs and the board with the movetext played on it.
+ */
+export interface PGNGame
+{
+	tags: Map<string, string>
+	board: ChessBoard
+}
+
+/**
+ * Returns the PGN result of an outcome: '1-0', '0-1', '1/2-1/2',
+ * or '*' if the game has not ended.
+ */
+const pgnResult = (outcome: GameOutcome) =>
+{
+	if (outcome == null)
+	{
+		return '*'
+	}
+
+	if (outcome.winner == null)
+	{
+		return '1/2-1/2'
+	}
+
+	return outcome.winner == Colour.White ? '1-0' : '0-1'
+}
+
+/**
+ * The names of the variants in the `Variant` tag.
+ */
+const PGN_VARIANT_NAMES = new Map<Variant, string>([
+	[ Variant.Antichess, 'Antichess' ],
+	[ Variant.ThreeCheck, 'Three-check' ],
+	[ Variant.KingOfTheHill, 'King of the Hill' ],
+	[ Variant.Atomic, 'Atomic' ],
+	[ Variant.Crazyhouse, 'Crazyhouse' ],
+	[ Variant.Horde, 'Horde' ],
+	[ Variant.RacingKings, 'Racing Kings' ],
+	[ Variant.FogOfWar, 'Fog of War' ],
+	[ Variant.Duck, 'Duck Chess' ],
+	[ Variant.Capablanca, 'Capablanca' ],
+	[ Variant.Gothic, 'Gothic' ]
+])
+
+/**
+ * Escapes a tag value, so it can be put between double quotes.
+ */
+const escapeTagValue = (value: string) => value
+	.replace(/\\/g, '\\\\')
+	.replace(/"/g, '\\"')
+
+/**
+ * Writes a finished game as PGN.
+ * The metadata of the `Run` goes into the tag pairs, with the
+ * search depth and engine id in the custom `Depth` and `Engine` tags.
+ */
+export const toPGN = (board: ChessBoard, run?: Run) =>
+{
+	const outcome = board.outcome()
+	const result = pgnResult(outcome)
+
+	// Both sides are played by the engine of the run. Runs logged before
+	// the engine id was added were all played by Stockfish.
+
+	const player = run == null ? '?' : `${ run.engineId ?? 'Stockfish' } (worst move)`
+
+	// Tag pairs, starting with the Seven Tag Roster.
+
+	const tags: [ string, string ][] = [
+		[ 'Event', 'Horrific Chess' ],
+		[ 'Site', '?' ],
+		[ 'Date', '????.??.??' ],
+		[ 'Round', '?' ],
+		[ 'White', player ],
+		[ 'Black', player ],
+		[ 'Result', result ]
+	]
+
+	if (board.variant != Variant.Standard)
+	{
+		tags.push([ 'Variant', PGN_VARIANT_NAMES.get(board.variant) ])
+	}
+	else if (board.chess960)
+	{
+		tags.push([ 'Variant', 'Chess960' ])
+	}
+
+	if (board.startFEN != null)
+	{
+		tags.push([ 'SetUp', '1' ])
+		tags.push([ 'FEN', board.startFEN ])
+	}
+
+	if (run != null)
+	{
+		tags.push([ 'Depth', run.depth.toString() ])
+	}
+
+	// Older runs were logged without the engine id.
+
+	if (run != null && run.engineId != null)
+	{
+		tags.push([ 'Engine', run.engineId ])
+	}
+
+	// Replay the moves from the start, since SAN depends on the position.
+
+	const replay = board.startFEN == null
+		? ChessBoard.generateDefault(board.variant)
+		: ChessBoard.fromFEN(board.startFEN, board.chess960, board.variant)
+
+	const tokens: string[] = []
+
+	for (const move of board.moves)
+	{
+		const moveNumber = Math.floor(replay.turnNumber / 2) + 1
+
+		if (replay.turn == Colour.White)
+		{
+			tokens.push(`${ moveNumber }.`)
+		}
+		else if (tokens.length == 0)
+		{
+			tokens.push(`${ moveNumber }...`)
+		}
+
+		tokens.push(replay.toSAN(move))
+		replay.play(move)
+	}
+
+	if (outcome != null)
+	{
+		tokens.push(`{ ${ describeOutcome(outcome) } }`)
+	}
+
+	tokens.push(result)
+
+	// Wrap the movetext at 80 characters.
+
+	const lines: string[] = []
+	let line = ''
+
+	for (const token of tokens)
+	{
+		if (line.length > 0 && line.length + 1 + token.length > 80)
+		{
+			lines.push(line)
+			line = ''
+		}
+
+		line += line.length == 0 ? token : ' ' + token
+	}
+
+	lines.push(line)
+
+	return tags.map(([ name, value ]) => `[${ name } "${ escapeTagValue(value) }"]`).join('\n')
+		+ '\n\n' + lines.join('\n') + '\n'
+}
+
+/**
+ * Reads a single game from PGN and replays its movetext.
+ * Comments, variations, NAGs and move numbers are skipped.
+ * Throws if the PGN is malformed or contains an illegal move.
+ */
+export const fromPGN = (pgn: string): PGNGame =>
+{
+	const tags = new Map<string, string>()
+	let i = 0
+
+	// Tag pairs.
+
+	const tagPairRegex = /\s*\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/y
+
+	while (true)
+	{
+		tagPairRegex.lastIndex = i
+
+		const match = tagPairRegex.exec(pgn)
+
+		if (match == null)
+		{
+			break
+		}
+
+		tags.set(match[1], match[2].replace(/\\(.)/g, '$1'))
+		i = tagPairRegex.lastIndex
+	}
+
+	const variantName = (tags.get('Variant') ?? '').toLowerCase()
+	const chess960 = /^(chess960|fischerandom)$/.test(variantName)
+
+	const variant = [ ...PGN_VARIANT_NAMES ]
+		.find(([ , name ]) => name.toLowerCase() == variantName)?.[0] ?? Variant.Standard
+
+	const board = tags.has('FEN')
+		? ChessBoard.fromFEN(tags.get('FEN'), chess960, variant)
+		: ChessBoard.generateDefault(variant)
+
+	// Movetext.
+
+	const movetext = pgn.slice(i)
+	let variationDepth = 0
+
+	const tokenRegex = /\{[^}]*\}|;[^\n]*|\(|\)|\$\d+|\d+\.(?:\.\.)?|1-0|0-1|1\/2-1\/2|\*|[^\s{}();$]+/g
+
+	for (const [ token ] of movetext.matchAll(tokenRegex))
+	{
+		if (token == '(')
+		{
+			variationDepth++
+			continue
+		}
+
+		if (token == ')')
+		{
+			variationDepth--
+
+			if (variationDepth < 0)
+			{
+				throw new Error('Invalid PGN: unmatched ")" in movetext')
+			}
+
+			continue
+		}
+
+		if (variationDepth > 0 || /^(\{|;|\$|\d+\.)/.test(token))
+		{
+			continue
+		}
+
+		if ([ '1-0', '0-1', '1/2-1/2', '*' ].includes(token))
+		{
+			// The game termination marker ends the game.
+
+			break
+		}
+
+		board.performSANMove(token)
+	}
+
+	if (variationDepth != 0)
+	{
+		throw new Error('Invalid PGN: unterminated variation in movetext')
+	}
+
+	return { tags, board }
+}
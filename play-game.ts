@@ -1,26 +1,153 @@
-import { StockfishInstance } from 'node-stockfish'
-import { ChessBoard, Colour } from './chess.js'
+import type { StockfishInstance } from 'node-stockfish'
+import { ChessBoard, Colour, describeOutcome, DrawPolicy, GameOutcome, IllegalMoveError, Move, Variant } from './chess.js'
+import { search } from './search.js'
 
 export interface Run
 {
 	board: string
+	startFEN: string
+	fen: string
 	turnNumber: number
-	endReason: string
+	outcome: GameOutcome
+	// Runs logged before `outcome` was added describe it in English.
+	endReason?: string
 	depth: number
+	engineId: string
+	// Missing in runs logged before draw policies were added, which claimed draws.
+	drawPolicy?: DrawPolicy
+	// Missing in runs logged before variants were added, which were standard chess.
+	variant?: Variant
 }
 
-export const playGame = async (depth: number): Promise<Run> =>
+export interface PlayGameOptions
 {
+	// Starts from the standard starting position if not given.
+	startFEN?: string
+
+	chess960?: boolean
+	drawPolicy?: DrawPolicy
+	variant?: Variant
+
+	// Use our own searcher instead of Stockfish.
+	builtin?: boolean
+}
+
+const BUILTIN_ENGINE_ID = 'Horrific Chess search'
+
+/**
+ * Collects the result of a finished game for the log.
+ */
+const toRun = (board: ChessBoard, depth: number, engineId: string): Run => ({
+	board: board.boardStateUCI(),
+	startFEN: board.startFEN,
+	fen: board.toFEN(),
+	turnNumber: board.turnNumber,
+	outcome: board.outcome(),
+	depth,
+	engineId,
+	drawPolicy: board.drawPolicy as DrawPolicy,
+	variant: board.variant
+})
+
+/**
+ * Plays the worst moves with our own searcher, until the game ends.
+ * Needs no Stockfish, and always plays the same game from the same position.
+ * In fog of war, each side searches only the board it can see.
+ */
+const playBuiltinGame = (board: ChessBoard, depth: number) =>
+{
+	while (board.outcome() == null)
+	{
+		const position = board.variant == Variant.FogOfWar ? board.view(board.turn) : board
+		const { move, score } = search(position, { depth, misere: true })
+
+		console.log(`Move ${ board.turnNumber }`)
+		console.log(`=========================`)
+		console.log(`Worst move: ${ board.toSAN(move) }: ${ score }`)
+		console.log(`${ board.turn == Colour.Black ? 'Black' : 'White' } moved a piece`)
+
+		board.play(move)
+		board.print()
+	}
+
+	console.log(describeOutcome(board.outcome()))
+}
+
+/**
+ * Plays a game of worst moves, found by Stockfish or, if `builtin` is set,
+ * by our own searcher.
+ * Variants need a Stockfish build that plays them, such as Fairy-Stockfish,
+ * or the built-in searcher. Only the built-in searcher plays fog of war
+ * blind, Stockfish is shown the whole board.
+ */
+export const playGame = async (depth: number, options: PlayGameOptions = {}): Promise<Run> =>
+{
+	const {
+		startFEN,
+		chess960 = false,
+		drawPolicy = DrawPolicy.Claim,
+		variant = Variant.Standard,
+		builtin = false
+	} = options
+
 	console.log('playGame()')
-	const engine = StockfishInstance.getInstance()
-	console.log('engine:', engine.id)
 
-	const board = ChessBoard.generateDefault()
+	let board: ChessBoard
+
+	if (startFEN != null)
+	{
+		board = ChessBoard.fromFEN(startFEN, chess960, variant)
+	}
+	else if (chess960)
+	{
+		if (variant != Variant.Standard)
+		{
+			throw new Error(`Chess960 is not supported for ${ variant }`)
+		}
+
+		board = ChessBoard.generateChess960()
+	}
+	else
+	{
+		board = ChessBoard.generateDefault(variant)
+	}
+
+	board.drawPolicy = drawPolicy
 	board.print()
 
+	if (builtin)
+	{
+		playBuiltinGame(board, depth)
+
+		return toRun(board, depth, BUILTIN_ENGINE_ID)
+	}
+
+	// Stockfish is only loaded when it is used, so the built-in searcher
+	// also works where it is not installed.
+
+	const { StockfishInstance } = await import('node-stockfish')
+	const engine: StockfishInstance = StockfishInstance.getInstance()
+	console.log('engine:', engine.id)
+
+	// In Chess960, castling moves are written as the king capturing its own rook.
+
+	engine.instance.stdin.write(`setoption name UCI_Chess960 value ${ board.chess960 }\n`)
+
+	if (board.variant != Variant.Standard)
+	{
+		engine.instance.stdin.write(`setoption name UCI_Variant value ${ board.variant }\n`)
+	}
+
 	const findWorstMove = () => new Promise<void>((resolve, reject) =>
 	{
-		engine.setBoardstateByMoves(board.boardStateUCI())
+		if (board.startFEN == null)
+		{
+			engine.setBoardstateByMoves(board.boardStateUCI())
+		}
+		else
+		{
+			engine.setBoardstateByFen(board.toFEN())
+		}
 
 		// Start analysing the position.
 
@@ -65,23 +192,37 @@ export const playGame = async (depth: number): Promise<Run> =>
 			const randomIndex = Math.floor(Math.random() * worstLines.length)
 			const randomWorstMove = worstLines[randomIndex].moves[0]
 
-			console.log(`Board state: ${ board.boardStateUCI() }`)
-			console.log(`Move ${ board.turnNumber }`)
-			console.log(`=========================`)
-			console.log(analysisData.lines.map(line => `* ${ line.moves[0] }: ${ line.score }`).join('\n'))
-			console.log(`Worst move: ${ randomWorstMove }: ${ score }`)
-			console.log(`${ board.turn == Colour.Black ? 'Black' : 'White' } moved a piece`)
+			// A move we can not play means our board and the engine's disagree.
 
-			// Perform the move.
+			try
+			{
+				console.log(`Board state: ${ board.boardStateUCI() }`)
+				console.log(`Move ${ board.turnNumber }`)
+				console.log(`=========================`)
+				console.log(analysisData.lines.map(line => `* ${ board.toSAN(Move.fromString(line.moves[0])) }: ${ line.score }`).join('\n'))
+				console.log(`Worst move: ${ board.toSAN(Move.fromString(randomWorstMove)) }: ${ score }`)
+				console.log(`${ board.turn == Colour.Black ? 'Black' : 'White' } moved a piece`)
+
+				// Perform the move.
+
+				board.performUCIMove(randomWorstMove)
+			}
+			catch (error)
+			{
+				engine.terminate()
+				reject(error)
+				return
+			}
 
-			board.performUCIMove(randomWorstMove)
 			board.print()
 
 			// Handle end of the game.
 
-			if (board.ended())
+			const outcome = board.outcome()
+
+			if (outcome != null)
 			{
-				console.log(board.endReason())
+				console.log(describeOutcome(outcome))
 				engine.terminate()
 				reject()
 				return
@@ -97,18 +238,18 @@ export const playGame = async (depth: number): Promise<Run> =>
 		{
 			await findWorstMove()
 		}
-		catch
+		catch (error)
 		{
+			if (error instanceof IllegalMoveError)
+			{
+				throw error
+			}
+
 			// The game is over.
 
 			break
 		}
 	}
 
-	return ({
-		board: board.boardStateUCI(),
-		turnNumber: board.turnNumber,
-		endReason: board.endReason(),
-		depth
-	})
+	return toRun(board, depth, engine.id)
 }
\ No newline at end of file
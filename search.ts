@@ -0,0 +1,165 @@
+import { ChessBoard, Colour, Move } from './chess.js'
+import { Evaluator, MaterialEvaluator } from './evaluation.js'
+
+/**
+ * The score of being checkmated right now, in centipawns.
+ * A mate further away scores a bit less, so the quickest mate is preferred.
+ */
+const MATE_SCORE = 100000
+
+const INFINITY = MATE_SCORE + 1
+
+export interface SearchOptions
+{
+	// Maximum search depth in plies.
+	depth: number
+
+	// Look for the move with the lowest score instead of the highest,
+	// assuming the best replies after it.
+	misere?: boolean
+
+	// Counts material if not given.
+	evaluator?: Evaluator
+}
+
+export interface SearchResult
+{
+	move: Move
+
+	// In centipawns, from the point of view of the side to move.
+	score: number
+
+	depth: number
+	nodes: number
+}
+
+/**
+ * Orders moves so captures of valuable pieces are searched first,
+ * which makes alpha-beta cut off sooner.
+ */
+const orderMoves = (board: ChessBoard, moves: Move[]) =>
+{
+	const captureValue = (move: Move) =>
+	{
+		const captured = board.pieceAt(move.to.x, move.to.y)
+
+		return move.capture && captured != null ? captured.value() : 0
+	}
+
+	return moves.sort((a, b) => captureValue(b) - captureValue(a))
+}
+
+/**
+ * Fail-soft negamax with alpha-beta pruning.
+ * Returns the score of the position from the point of view of the side
+ * to move.
+ */
+const negamax = (board: ChessBoard, depth: number, alpha: number, beta: number,
+	ply: number, evaluator: Evaluator, result: SearchResult): number =>
+{
+	result.nodes++
+
+	// Games that ended score as a win, loss or draw, whatever the variant.
+
+	const outcome = board.outcome()
+
+	if (outcome != null)
+	{
+		if (outcome.winner == null)
+		{
+			return 0
+		}
+
+		return outcome.winner == board.turn ? MATE_SCORE - ply : -(MATE_SCORE - ply)
+	}
+
+	// Repetitions within the search count as draws.
+
+	if (board.canClaimDraw())
+	{
+		return 0
+	}
+
+	// A side can be out of moves without the game ending, like the enemy
+	// on a view of fog of war, whose pieces are hidden.
+
+	const moves = depth == 0 ? [] : board.legalMoves()
+
+	if (moves.length == 0)
+	{
+		const { score } = evaluator.evaluate(board)
+
+		return board.turn == Colour.White ? score : -score
+	}
+
+	let best = -INFINITY
+
+	for (const move of orderMoves(board, moves))
+	{
+		const score = board.tryMove(move, () =>
+			-negamax(board, depth - 1, -beta, -alpha, ply + 1, evaluator, result))
+
+		best = Math.max(best, score)
+		alpha = Math.max(alpha, score)
+
+		if (alpha >= beta)
+		{
+			break
+		}
+	}
+
+	return best
+}
+
+/**
+ * Searches the position with iterative deepening and returns the best move,
+ * or the worst move in misère mode.
+ * Ties go to the first move searched, so the result is deterministic.
+ * Returns null if the side to move has no legal moves.
+ */
+export const search = (board: ChessBoard, options: SearchOptions) =>
+{
+	const misere = options.misere ?? false
+	const evaluator = options.evaluator ?? new MaterialEvaluator()
+	let moves = orderMoves(board, board.legalMoves())
+
+	if (moves.length == 0)
+	{
+		return null
+	}
+
+	const result: SearchResult = { move: moves[0], score: 0, depth: 0, nodes: 0 }
+
+	for (let depth = 1; depth <= options.depth; depth++)
+	{
+		let bestMove: Move = null
+		let bestScore = misere ? INFINITY : -INFINITY
+
+		for (const move of moves)
+		{
+			// Only a move that beats the current one needs an exact score.
+			// In misère mode that is a move after which the opponent
+			// scores higher.
+
+			const score = board.tryMove(move, () => misere
+				? -negamax(board, depth - 1, -bestScore, INFINITY, 1, evaluator, result)
+				: -negamax(board, depth - 1, -INFINITY, -bestScore, 1, evaluator, result))
+
+			if (bestMove == null || (misere ? score < bestScore : score > bestScore))
+			{
+				bestMove = move
+				bestScore = score
+			}
+		}
+
+		result.move = bestMove
+		result.score = bestScore
+		result.depth = depth
+
+		// Search the best move of this iteration first in the next one.
+
+		moves = [ bestMove, ...moves.filter(move => move != bestMove) ]
+	}
+
+	return result
+}
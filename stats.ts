@@ -1,6 +1,32 @@
 import { readFileSync } from 'fs'
+import { Colour, describeOutcome, DrawPolicy, GameOutcome, Termination } from './chess.js'
 import { Run } from './play-game.js'
 
+/**
+ * Reads the outcome of a run.
+ * Older runs only have the English `endReason`, which is parsed back.
+ */
+const runOutcome = (run: Run): GameOutcome =>
+{
+	if (run.outcome !== undefined)
+	{
+		return run.outcome
+	}
+
+	if (run.endReason == null)
+	{
+		return null
+	}
+
+	const winner = run.endReason.startsWith('White wins') ? Colour.White
+		: run.endReason.startsWith('Black wins') ? Colour.Black : null
+
+	const termination = Object.values(Termination)
+		.find(termination => run.endReason.endsWith(termination))
+
+	return { winner, termination }
+}
+
 const log = readFileSync('log.jsonl', 'utf-8')
 const runs = log
 	.split('\n')
@@ -8,19 +34,48 @@ const runs = log
 	.map(line => JSON.parse(line) as Run)
 	// .filter(run => run.depth == 15)
 
-const endReasons = new Map<String, number>()
+// Group the runs by winner and termination.
+
+const outcomes = new Map<string, { outcome: GameOutcome, count: number }>()
+
+for (const run of runs)
+{
+	const outcome = runOutcome(run)
+	const key = outcome == null ? 'none' : `${ outcome.winner } ${ outcome.termination }`
+
+	if (!outcomes.has(key))
+	{
+		outcomes.set(key, { outcome, count: 0 })
+	}
+
+	outcomes.get(key).count++
+}
+
+for (const { outcome, count } of outcomes.values())
+{
+	console.log(outcome == null ? 'Unfinished' : describeOutcome(outcome), count)
+}
+
+// Average game length per draw policy, to see how much longer games
+// last when only the automatic draws end them.
+
+const lengths = new Map<DrawPolicy, number[]>()
 
 for (const run of runs)
 {
-	if (!endReasons.has(run.endReason))
+	const drawPolicy = run.drawPolicy ?? DrawPolicy.Claim
+
+	if (!lengths.has(drawPolicy))
 	{
-		endReasons.set(run.endReason, 0)
+		lengths.set(drawPolicy, [])
 	}
 
-	endReasons.set(run.endReason, endReasons.get(run.endReason) + 1)
+	lengths.get(drawPolicy).push(run.turnNumber)
 }
 
-for (const [ endReason, count ] of endReasons)
+for (const [ drawPolicy, turnNumbers ] of lengths)
 {
-	console.log(endReason, count)
-}
\ No newline at end of file
+	const average = turnNumbers.reduce((a, b) => a + b, 0) / turnNumbers.length
+
+	console.log(`Draw policy ${ drawPolicy }: ${ average.toFixed(1) } plies on average`)
+}
@@ -0,0 +1,1524 @@
+import {
+	ChessBoard,
+	ChessPiece,
+	ChessPieceType,
+	Colour,
+	GameOutcome,
+	IllegalMoveError,
+	IllegalMoveReason,
+	Move,
+	POCKET_PIECE_TYPES,
+	Square,
+	Termination,
+	Variant,
+	zobristKeys
+} from './chess.js'
+
+/**
+ * The rules `ChessBoard` delegates to wherever a variant differs from
+ * standard chess. Extend `StandardRules` to change only some of them,
+ * for example to play house rules.
+ */
+export interface VariantRules
+{
+	// The variant the rules belong to, or are based on.
+	// Engines and PGN know the game by it.
+	readonly variant: Variant
+
+	// The number of files and ranks of the board.
+	readonly width: number
+	readonly height: number
+
+	/**
+	 * Places the pieces of the starting position on an empty board,
+	 * and clears the castling rights that do not apply.
+	 */
+	setUp(board: ChessBoard): void
+
+	/**
+	 * Returns a boolean indicating whether the king of the given colour
+	 * can be in check in the current position.
+	 */
+	canBeChecked(board: ChessBoard, colour: Colour): boolean
+
+	/**
+	 * Returns a boolean indicating whether a pawn of the given colour on
+	 * the given rank may move two squares.
+	 */
+	canDoublePush(board: ChessBoard, colour: Colour, y: number): boolean
+
+	/**
+	 * Returns a boolean indicating whether kings may capture.
+	 */
+	kingCanCapture(): boolean
+
+	/**
+	 * Returns a boolean indicating whether castling is allowed at all.
+	 */
+	canCastle(): boolean
+
+	/**
+	 * Returns a boolean indicating whether a castling king may not pass
+	 * or land on a square, because the enemy attacks it.
+	 */
+	castlingSquareAttacked(board: ChessBoard, square: Square, enemy: Colour): boolean
+
+	/**
+	 * Returns a boolean indicating whether every move has to be checked
+	 * with `isLegal()`. Otherwise only moves out of check, king moves and
+	 * en passant are, and pinned pieces are kept on their pin ray.
+	 */
+	checkEveryMove(): boolean
+
+	/**
+	 * Returns a boolean indicating whether a move the piece can make is
+	 * legal, which is usually whether it keeps its own king out of check.
+	 */
+	isLegal(board: ChessBoard, from: Square, to: Square): boolean
+
+	/**
+	 * Throws an `IllegalMoveError` if a move the piece can make breaks
+	 * a rule of the variant. Called by `ChessBoard.validateMove()` before
+	 * it checks whether the move leaves the king in check.
+	 */
+	validateMove(board: ChessBoard, from: Square, to: Square, promotion: ChessPieceType): void
+
+	/**
+	 * Returns the legal moves the variant adds to the moves of the pieces,
+	 * such as drops.
+	 */
+	extraMoves(board: ChessBoard, inCheck: boolean): Move[]
+
+	/**
+	 * Filters the legal moves, for example to make captures compulsory.
+	 * Duck chess turns every move into one for each square the duck
+	 * can go to here.
+	 */
+	filterMoves(board: ChessBoard, moves: Move[]): Move[]
+
+	/**
+	 * Returns a boolean indicating whether pieces can be dropped from
+	 * the pockets.
+	 */
+	allowsDrops(): boolean
+
+	/**
+	 * Returns the number of pieces of each type in the pocket of the
+	 * given colour, indexed by `ChessPieceType`.
+	 */
+	pocket(board: ChessBoard, colour: Colour): number[]
+
+	/**
+	 * Returns a boolean indicating whether every move also moves the duck.
+	 */
+	hasDuck(): boolean
+
+	/**
+	 * Returns the piece types a pawn can promote to.
+	 */
+	promotionTypes(): ChessPieceType[]
+
+	/**
+	 * Applies the effects of a move once the piece has moved or been
+	 * dropped, before the turn passes. `capturedPiece` is null for drops
+	 * and en passant captures, which `move.capture` still marks. Squares
+	 * the effects change are added to `changedSquares`.
+	 */
+	afterMove(board: ChessBoard, move: Move, capturedPiece: ChessPiece,
+		changedSquares: Square[]): void
+
+	/**
+	 * Updates the state of the variant once the turn has passed to the
+	 * other side, after every move and drop.
+	 */
+	afterTurn(board: ChessBoard): void
+
+	/**
+	 * Returns the ending particular to the variant, or null if there is
+	 * none. Checked before any other ending.
+	 */
+	outcome(board: ChessBoard): GameOutcome
+
+	/**
+	 * Returns how the game ends when the side to move can not move,
+	 * or null if the game goes on.
+	 */
+	noMovesOutcome(board: ChessBoard): GameOutcome
+
+	/**
+	 * Returns a boolean indicating whether the game is drawn because
+	 * neither side has the material to win.
+	 */
+	insufficientMaterial(board: ChessBoard): boolean
+
+	/**
+	 * Returns the state the variant keeps besides the pieces, such as the
+	 * checks given in Three-check, as it is before the first move, or
+	 * null if there is none. `ChessBoard` keeps it in `variantState` and
+	 * the rules change it in place.
+	 */
+	initialState(): unknown
+
+	/**
+	 * Returns a copy of a variant state that does not share anything the
+	 * rules change in place. Used to save the state for `undo()` and to
+	 * clone the board.
+	 */
+	copyState(state: unknown): unknown
+
+	/**
+	 * Returns the Zobrist key of the variant state of the board, which is
+	 * part of the hash of the position, or 0 if there is no state.
+	 */
+	stateKey(board: ChessBoard): bigint
+
+	/**
+	 * Reads the parts of a FEN string particular to the variant onto the
+	 * board, including the variant state. Returns the fields with those
+	 * parts taken out, so they can be read as standard FEN.
+	 */
+	readFEN(board: ChessBoard, fields: string[]): string[]
+
+	/**
+	 * Adds the parts particular to the variant to the fields of a FEN
+	 * string. `fields` holds the placement, side to move, castling rights
+	 * and en passant square, the move counters are added after.
+	 */
+	writeFEN(board: ChessBoard, fields: string[]): void
+}
+
+/**
+ * The rules of standard chess.
+ */
+export class StandardRules implements VariantRules
+{
+	readonly variant: Variant = Variant.Standard
+
+	readonly width: number = 8
+	readonly height: number = 8
+
+	setUp(board: ChessBoard)
+	{
+		// White back rank.
+
+		board.set('a1', ChessPieceType.Rook, Colour.White)
+		board.set('b1', ChessPieceType.Knight, Colour.White)
+		board.set('c1', ChessPieceType.Bishop, Colour.White)
+		board.set('d1', ChessPieceType.Queen, Colour.White)
+		board.set('e1', ChessPieceType.King, Colour.White)
+		board.set('f1', ChessPieceType.Bishop, Colour.White)
+		board.set('g1', ChessPieceType.Knight, Colour.White)
+		board.set('h1', ChessPieceType.Rook, Colour.White)
+
+		// White pawn rank.
+
+		for (const coord of [ 'a2', 'b2', 'c2', 'd2', 'e2', 'f2', 'g2', 'h2' ])
+		{
+			board.set(coord, ChessPieceType.Pawn, Colour.White)
+		}
+
+		this.setUpBlack(board)
+	}
+
+	/**
+	 * Places Black's standard army on the seventh and eighth rank.
+	 */
+	setUpBlack(board: ChessBoard)
+	{
+		// Black pawn rank.
+
+		for (const coord of [ 'a7', 'b7', 'c7', 'd7', 'e7', 'f7', 'g7', 'h7' ])
+		{
+			board.set(coord, ChessPieceType.Pawn, Colour.Black)
+		}
+
+		// Black back rank.
+
+		board.set('a8', ChessPieceType.Rook, Colour.Black)
+		board.set('b8', ChessPieceType.Knight, Colour.Black)
+		board.set('c8', ChessPieceType.Bishop, Colour.Black)
+		board.set('d8', ChessPieceType.Queen, Colour.Black)
+		board.set('e8', ChessPieceType.King, Colour.Black)
+		board.set('f8', ChessPieceType.Bishop, Colour.Black)
+		board.set('g8', ChessPieceType.Knight, Colour.Black)
+		board.set('h8', ChessPieceType.Rook, Colour.Black)
+	}
+
+	canBeChecked(board: ChessBoard, colour: Colour)
+	{
+		return true
+	}
+
+	canDoublePush(board: ChessBoard, colour: Colour, y: number)
+	{
+		return y == (colour == Colour.White ? 1 : board.height - 2)
+	}
+
+	kingCanCapture()
+	{
+		return true
+	}
+
+	canCastle()
+	{
+		return true
+	}
+
+	castlingSquareAttacked(board: ChessBoard, square: Square, enemy: Colour)
+	{
+		return board.isSquareAttacked(square, enemy)
+	}
+
+	checkEveryMove()
+	{
+		return false
+	}
+
+	isLegal(board: ChessBoard, from: Square, to: Square)
+	{
+		return !board.leavesKingInCheck(from, to)
+	}
+
+	validateMove(board: ChessBoard, from: Square, to: Square, promotion: ChessPieceType)
+	{
+	}
+
+	extraMoves(board: ChessBoard, inCheck: boolean): Move[]
+	{
+		return []
+	}
+
+	filterMoves(board: ChessBoard, moves: Move[])
+	{
+		return moves
+	}
+
+	allowsDrops()
+	{
+		return false
+	}
+
+	pocket(board: ChessBoard, colour: Colour)
+	{
+		return Array<number>(6).fill(0)
+	}
+
+	hasDuck()
+	{
+		return false
+	}
+
+	promotionTypes()
+	{
+		return [
+			ChessPieceType.Queen,
+			ChessPieceType.Rook,
+			ChessPieceType.Bishop,
+			ChessPieceType.Knight
+		]
+	}
+
+	afterMove(board: ChessBoard, move: Move, capturedPiece: ChessPiece,
+		changedSquares: Square[])
+	{
+	}
+
+	afterTurn(board: ChessBoard)
+	{
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		return null
+	}
+
+	noMovesOutcome(board: ChessBoard): GameOutcome
+	{
+		const inCheck = board.turn == Colour.White
+			? board.whiteInCheck() : board.blackInCheck()
+
+		if (!inCheck)
+		{
+			return { winner: null, termination: Termination.Stalemate }
+		}
+
+		return {
+			winner: board.turn == Colour.White ? Colour.Black : Colour.White,
+			termination: Termination.Checkmate
+		}
+	}
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return board.insufficientMaterial()
+	}
+
+	initialState(): unknown
+	{
+		return null
+	}
+
+	copyState(state: unknown)
+	{
+		return state
+	}
+
+	stateKey(board: ChessBoard)
+	{
+		return BigInt(0)
+	}
+
+	readFEN(board: ChessBoard, fields: string[])
+	{
+		return fields
+	}
+
+	writeFEN(board: ChessBoard, fields: string[])
+	{
+	}
+}
+
+/**
+ * Antichess: captures are compulsory, the king is an ordinary piece
+ * without check or castling, and losing all pieces or being stalemated
+ * wins.
+ */
+export class AntichessRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Antichess
+
+	setUp(board: ChessBoard)
+	{
+		super.setUp(board)
+
+		board.whiteCastleShort = false
+		board.whiteCastleLong = false
+
+		board.blackCastleShort = false
+		board.blackCastleLong = false
+	}
+
+	canBeChecked(board: ChessBoard, colour: Colour)
+	{
+		return false
+	}
+
+	canCastle()
+	{
+		return false
+	}
+
+	validateMove(board: ChessBoard, from: Square, to: Square, promotion: ChessPieceType)
+	{
+		if (!board.legalMoves().some(move => move.from.equals(from) && move.to.equals(to)))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.CaptureRequired,
+				new Move(from, to, promotion).toString(), 'captures are compulsory')
+		}
+	}
+
+	filterMoves(board: ChessBoard, moves: Move[])
+	{
+		return moves.some(move => move.capture)
+			? moves.filter(move => move.capture)
+			: moves
+	}
+
+	// Pawns can also become kings.
+
+	promotionTypes()
+	{
+		return [ ...super.promotionTypes(), ChessPieceType.King ]
+	}
+
+	// A player without moves, or without pieces, wins.
+
+	noMovesOutcome(board: ChessBoard): GameOutcome
+	{
+		return {
+			winner: board.turn,
+			termination: board.countPieces(board.turn) == 0
+				? Termination.AllPiecesLost : Termination.Stalemate
+		}
+	}
+
+	// Any material is enough to lose.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * The number of checks each colour has given in Three-check.
+ */
+export interface ThreeCheckState
+{
+	whiteChecks: number
+	blackChecks: number
+}
+
+/**
+ * Three-check: giving check three times wins.
+ * The checks are counted in the variant state of the board.
+ */
+export class ThreeCheckRules extends StandardRules
+{
+	readonly variant: Variant = Variant.ThreeCheck
+
+	// Zobrist keys for the checks given, `checkKeys[colour * 3 + checks - 1]`.
+	readonly checkKeys = zobristKeys(0x7f4a7c15, 2 * 3)
+
+	/**
+	 * Returns the checks given on the board.
+	 */
+	checks(board: ChessBoard)
+	{
+		return board.variantState as ThreeCheckState
+	}
+
+	afterTurn(board: ChessBoard)
+	{
+		const checks = this.checks(board)
+
+		if (board.turn == Colour.Black && board.blackInCheck())
+		{
+			checks.whiteChecks++
+		}
+
+		if (board.turn == Colour.White && board.whiteInCheck())
+		{
+			checks.blackChecks++
+		}
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		const checks = this.checks(board)
+
+		if (checks.whiteChecks >= 3)
+		{
+			return { winner: Colour.White, termination: Termination.ThreeChecks }
+		}
+
+		if (checks.blackChecks >= 3)
+		{
+			return { winner: Colour.Black, termination: Termination.ThreeChecks }
+		}
+
+		return null
+	}
+
+	// A single knight or bishop can still give three checks, only bare
+	// kings can not.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return board.countPieces(Colour.White) == 1 && board.countPieces(Colour.Black) == 1
+	}
+
+	initialState(): ThreeCheckState
+	{
+		return { whiteChecks: 0, blackChecks: 0 }
+	}
+
+	copyState(state: ThreeCheckState)
+	{
+		return { ...state }
+	}
+
+	stateKey(board: ChessBoard)
+	{
+		const checks = this.checks(board)
+		let key = BigInt(0)
+
+		for (const [ colour, given ] of [
+			[ Colour.White, checks.whiteChecks ],
+			[ Colour.Black, checks.blackChecks ]
+		])
+		{
+			if (given > 0)
+			{
+				key ^= this.checkKeys[colour * 3 + Math.min(given, 3) - 1]
+			}
+		}
+
+		return key
+	}
+
+	// The checks left to give are either a field after the en passant
+	// square ('3+3'), or the checks given at the end ('+0+0').
+
+	readFEN(board: ChessBoard, fields: string[])
+	{
+		let checksLeft: number[] = null
+
+		if (/^\d\+\d$/.test(fields[4] ?? ''))
+		{
+			checksLeft = fields.splice(4, 1)[0].split('+').map(Number)
+		}
+		else if (/^\+\d\+\d$/.test(fields[fields.length - 1]))
+		{
+			checksLeft = fields.pop().slice(1).split('+').map(checks => 3 - +checks)
+		}
+
+		if (checksLeft != null)
+		{
+			board.variantState = {
+				whiteChecks: Math.max(0, 3 - checksLeft[0]),
+				blackChecks: Math.max(0, 3 - checksLeft[1])
+			}
+		}
+
+		return fields
+	}
+
+	// Written as the checks left to give, as lichess and Fairy-Stockfish do.
+
+	writeFEN(board: ChessBoard, fields: string[])
+	{
+		const { whiteChecks, blackChecks } = this.checks(board)
+
+		fields.push(`${ Math.max(0, 3 - whiteChecks) }+${ Math.max(0, 3 - blackChecks) }`)
+	}
+}
+
+/**
+ * King of the Hill: bringing the king to d4, e4, d5 or e5 wins.
+ */
+export class KingOfTheHillRules extends StandardRules
+{
+	readonly variant: Variant = Variant.KingOfTheHill
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		for (const [ x, y ] of [ [ 3, 3 ], [ 4, 3 ], [ 3, 4 ], [ 4, 4 ] ])
+		{
+			const piece = board.pieceAt(x, y)
+
+			if (piece != null && piece.type == ChessPieceType.King)
+			{
+				return { winner: piece.colour, termination: Termination.KingOfTheHill }
+			}
+		}
+
+		return null
+	}
+
+	// A bare king can still walk to the centre.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * Atomic: a capture explodes the capturing piece and every piece around
+ * the capture square but pawns, and blowing up the enemy king wins.
+ */
+export class AtomicRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Atomic
+
+	/**
+	 * Returns a boolean indicating whether the kings stand next to each
+	 * other. Capturing a king there would blow up the capturing side's
+	 * own king as well, so touching kings can not be checked.
+	 */
+	kingsTouch(board: ChessBoard)
+	{
+		const whiteKing = board.kingIndex(Colour.White)
+		const blackKing = board.kingIndex(Colour.Black)
+
+		return whiteKing != -1 && blackKing != -1
+			&& Math.abs((whiteKing & 15) - (blackKing & 15)) <= 1
+			&& Math.abs((whiteKing >> 4) - (blackKing >> 4)) <= 1
+	}
+
+	/**
+	 * Returns the squares emptied by an explosion on a square: the square
+	 * itself and the squares around it holding a piece other than a pawn.
+	 * If `all` is set, every square on the board around it is returned
+	 * instead.
+	 */
+	blastSquares(board: ChessBoard, x: number, y: number, all = false)
+	{
+		const squares: Square[] = []
+
+		for (let dy = -1; dy <= 1; dy++)
+		{
+			for (let dx = -1; dx <= 1; dx++)
+			{
+				const sq = new Square(x + dx, y + dy)
+
+				if (sq.x < 0 || sq.x >= board.width || sq.y < 0 || sq.y >= board.height)
+				{
+					continue
+				}
+
+				const piece = board.pieceAt(sq.x, sq.y)
+				const centre = dx == 0 && dy == 0
+
+				if (all || centre
+					|| (piece != null && piece.type != ChessPieceType.Pawn))
+				{
+					squares.push(sq)
+				}
+			}
+		}
+
+		return squares
+	}
+
+	canBeChecked(board: ChessBoard, colour: Colour)
+	{
+		return !this.kingsTouch(board)
+	}
+
+	// A king capturing would blow itself up.
+
+	kingCanCapture()
+	{
+		return false
+	}
+
+	// The king is safe next to the enemy king.
+
+	castlingSquareAttacked(board: ChessBoard, square: Square, enemy: Colour)
+	{
+		const enemyKing = board.kingIndex(enemy)
+
+		const nextToEnemyKing = enemyKing != -1
+			&& Math.abs(square.x - (enemyKing & 15)) <= 1
+			&& Math.abs(square.y - (enemyKing >> 4)) <= 1
+
+		return !nextToEnemyKing && board.isSquareAttacked(square, enemy)
+	}
+
+	// Any capture can blow up a piece shielding the king.
+
+	checkEveryMove()
+	{
+		return true
+	}
+
+	/**
+	 * A capture may blow up the moving side's own king. Blowing up the
+	 * enemy king is always legal, even when the own king is left in check.
+	 */
+	isLegal(board: ChessBoard, from: Square, to: Square)
+	{
+		const movedPiece = board.pieceAt(from.x, from.y)
+		const enemy = movedPiece.colour == Colour.White ? Colour.Black : Colour.White
+
+		const enPassantCapture = movedPiece.type == ChessPieceType.Pawn
+			&& from.x != to.x && board.pieceAt(to.x, to.y) == null
+
+		const capture = enPassantCapture || board.pieceAt(to.x, to.y) != null
+
+		// Remember every square the move can change, to put them back after.
+
+		const saved: [ Square, ChessPiece ][] = [ from, ...this.blastSquares(board, to.x, to.y, true) ]
+			.map(sq => [ sq, board.pieceAt(sq.x, sq.y) ])
+
+		if (enPassantCapture)
+		{
+			board.setAt(to.x, from.y, null)
+		}
+
+		board.pretend(from, to)
+
+		if (capture)
+		{
+			for (const sq of this.blastSquares(board, to.x, to.y))
+			{
+				board.setAt(sq.x, sq.y, null)
+			}
+		}
+
+		const ownKing = board.kingIndex(movedPiece.colour) != -1
+		const enemyKing = board.kingIndex(enemy) != -1
+
+		const check = movedPiece.colour == Colour.White
+			? board.whiteInCheck() : board.blackInCheck()
+
+		for (const [ sq, piece ] of saved)
+		{
+			board.setAt(sq.x, sq.y, piece)
+		}
+
+		return ownKing && (!enemyKing || !check)
+	}
+
+	validateMove(board: ChessBoard, from: Square, to: Square, promotion: ChessPieceType)
+	{
+		if (!this.isLegal(board, from, to))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.LeavesKingInCheck,
+				new Move(from, to, promotion).toString(),
+				'the move blows up the king or leaves it in check')
+		}
+	}
+
+	afterMove(board: ChessBoard, move: Move, capturedPiece: ChessPiece,
+		changedSquares: Square[])
+	{
+		if (!move.capture)
+		{
+			return
+		}
+
+		for (const sq of this.blastSquares(board, move.to.x, move.to.y))
+		{
+			board.setAt(sq.x, sq.y, null)
+
+			if (!changedSquares.some(changed => changed.equals(sq)))
+			{
+				changedSquares.push(sq)
+			}
+		}
+
+		// A king or rook that is blown up takes its castling rights with it.
+
+		const whiteKing = board.kingIndex(Colour.White) != -1
+		const blackKing = board.kingIndex(Colour.Black) != -1
+		const rookLeft = (x: number, y: number) => board.pieceAt(x, y) != null
+
+		board.whiteCastleShort = board.whiteCastleShort && whiteKing
+			&& rookLeft(board.whiteCastleShortFile, 0)
+
+		board.whiteCastleLong = board.whiteCastleLong && whiteKing
+			&& rookLeft(board.whiteCastleLongFile, 0)
+
+		board.blackCastleShort = board.blackCastleShort && blackKing
+			&& rookLeft(board.blackCastleShortFile, board.height - 1)
+
+		board.blackCastleLong = board.blackCastleLong && blackKing
+			&& rookLeft(board.blackCastleLongFile, board.height - 1)
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		if (board.kingIndex(Colour.White) == -1)
+		{
+			return { winner: Colour.Black, termination: Termination.Explosion }
+		}
+
+		if (board.kingIndex(Colour.Black) == -1)
+		{
+			return { winner: Colour.White, termination: Termination.Explosion }
+		}
+
+		return null
+	}
+
+	/**
+	 * Returns a boolean indicating whether the given colour has too little
+	 * material left to blow up the enemy king, as python-chess decides it.
+	 */
+	cannotWin(board: ChessBoard, colour: Colour)
+	{
+		const enemy = colour == Colour.White ? Colour.Black : Colour.White
+
+		// The pieces other than kings, with their squares.
+
+		const own: [ ChessPiece, number, number ][] = []
+		const enemyPieces: [ ChessPiece, number, number ][] = []
+
+		for (let y = 0; y < board.height; y++)
+		{
+			for (let x = 0; x < board.width; x++)
+			{
+				const piece = board.pieceAt(x, y)
+
+				if (piece == null || piece.type == ChessPieceType.King)
+				{
+					continue
+				}
+
+				(piece.colour == colour ? own : enemyPieces).push([ piece, x, y ])
+			}
+		}
+
+		// Nothing is left to win once the enemy king is blown up, and a bare
+		// king can not win.
+
+		if (board.kingIndex(enemy) == -1)
+		{
+			return false
+		}
+
+		if (own.length == 0)
+		{
+			return true
+		}
+
+		// While the enemy king has pieces of its own, one of them can be
+		// captured next to it. Only bishops that can never meet can not.
+
+		if (enemyPieces.length > 0)
+		{
+			const pieces = [ ...own, ...enemyPieces ]
+
+			if (!pieces.every(([ piece ]) => piece.type == ChessPieceType.Bishop))
+			{
+				return false
+			}
+
+			const squareColours = (pieces: [ ChessPiece, number, number ][]) =>
+				new Set(pieces.map(([ , x, y ]) => board.squareColour(x, y)))
+
+			const ownColours = squareColours(own)
+			const enemyColours = squareColours(enemyPieces)
+
+			return ownColours.size == 1 && enemyColours.size == 1
+				&& [ ...ownColours ][0] != [ ...enemyColours ][0]
+		}
+
+		// Against a bare king, a queen or a pawn can win, and so can two
+		// pieces unless they are two knights.
+
+		const minor = (piece: ChessPiece) => piece.type == ChessPieceType.Knight
+			|| piece.type == ChessPieceType.Bishop
+			|| piece.type == ChessPieceType.Rook
+
+		if (!own.every(([ piece ]) => minor(piece)))
+		{
+			return false
+		}
+
+		if (own.length == 1)
+		{
+			return true
+		}
+
+		return own.length == 2 && own.every(([ piece ]) => piece.type == ChessPieceType.Knight)
+	}
+
+	// A lone minor piece can still win by capturing next to the enemy king
+	// while that king has pieces around.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return this.cannotWin(board, Colour.White) && this.cannotWin(board, Colour.Black)
+	}
+}
+
+/**
+ * The number of pieces of each type in each side's pocket in Crazyhouse,
+ * indexed by `ChessPieceType`.
+ */
+export interface CrazyhouseState
+{
+	whitePocket: number[]
+	blackPocket: number[]
+}
+
+/**
+ * Crazyhouse: captured pieces go into the capturing side's pocket, and
+ * can be dropped back onto the board instead of moving.
+ * The pockets are kept in the variant state of the board.
+ */
+export class CrazyhouseRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Crazyhouse
+
+	// Zobrist keys for the pieces in the pockets,
+	// `pocketKeys[(colour * 6 + type) * 16 + count - 1]`.
+	// Neither side can have more than 16 pieces of one type in its pocket.
+	readonly pocketKeys = zobristKeys(0x1b873593, 2 * 6 * 16)
+
+	// Pieces in the pocket can be dropped on any empty square, pawns not
+	// on the first or last rank. Out of check, a drop can not expose
+	// the king.
+
+	extraMoves(board: ChessBoard, inCheck: boolean)
+	{
+		const moves: Move[] = []
+		const pocket = this.pocket(board, board.turn)
+
+		for (const type of POCKET_PIECE_TYPES.filter(type => pocket[type] > 0))
+		{
+			for (let y = 0; y < board.height; y++)
+			{
+				for (let x = 0; x < board.width; x++)
+				{
+					const to = new Square(x, y)
+
+					if (board.pieceAt(x, y) != null
+						|| (type == ChessPieceType.Pawn && (y == 0 || y == board.height - 1)))
+					{
+						continue
+					}
+
+					if (!inCheck || board.isLegalDrop(type, to))
+					{
+						moves.push(Move.drop(type, to))
+					}
+				}
+			}
+		}
+
+		return moves
+	}
+
+	allowsDrops()
+	{
+		return true
+	}
+
+	pocket(board: ChessBoard, colour: Colour)
+	{
+		const pockets = board.variantState as CrazyhouseState
+
+		return colour == Colour.White ? pockets.whitePocket : pockets.blackPocket
+	}
+
+	// A dropped piece leaves the pocket. The captured piece goes into it,
+	// a promoted piece as a pawn. A pawn captured en passant leaves no
+	// piece on the square.
+
+	afterMove(board: ChessBoard, move: Move, capturedPiece: ChessPiece,
+		changedSquares: Square[])
+	{
+		const pocket = this.pocket(board, board.turn)
+
+		if (move.drop != null)
+		{
+			pocket[move.drop]--
+		}
+
+		if (move.capture)
+		{
+			pocket[capturedPiece == null || capturedPiece.promoted
+				? ChessPieceType.Pawn : capturedPiece.type]++
+		}
+	}
+
+	// Captured pieces come back into play.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+
+	initialState(): CrazyhouseState
+	{
+		return {
+			whitePocket: Array(6).fill(0),
+			blackPocket: Array(6).fill(0)
+		}
+	}
+
+	copyState(state: CrazyhouseState)
+	{
+		return {
+			whitePocket: state.whitePocket.slice(),
+			blackPocket: state.blackPocket.slice()
+		}
+	}
+
+	stateKey(board: ChessBoard)
+	{
+		let key = BigInt(0)
+
+		for (const colour of [ Colour.White, Colour.Black ])
+		{
+			const pocket = this.pocket(board, colour)
+
+			for (const type of POCKET_PIECE_TYPES.filter(type => pocket[type] > 0))
+			{
+				key ^= this.pocketKeys[(colour * 6 + type) * 16 + Math.min(pocket[type], 16) - 1]
+			}
+		}
+
+		return key
+	}
+
+	// The pockets follow the piece placement between brackets,
+	// or as an extra rank.
+
+	readFEN(board: ChessBoard, fields: string[])
+	{
+		const placement = fields[0] ?? ''
+		let pockets = ''
+
+		if (/\[[QRBNPqrbnp]*\]$/.test(placement))
+		{
+			pockets = placement.slice(placement.indexOf('[') + 1, -1)
+			fields[0] = placement.slice(0, placement.indexOf('['))
+		}
+		else if (placement.split('/').length == board.height + 1)
+		{
+			pockets = placement.slice(placement.lastIndexOf('/') + 1)
+			fields[0] = placement.slice(0, placement.lastIndexOf('/'))
+		}
+
+		for (const char of pockets)
+		{
+			const piece = ChessPiece.fromString(char)
+
+			if (piece == null || piece.type == ChessPieceType.King)
+			{
+				throw new Error(`Invalid FEN: bad pocket ${ pockets }: ${ fields.join(' ') }`)
+			}
+
+			this.pocket(board, piece.colour)[piece.type]++
+		}
+
+		return fields
+	}
+
+	// Promoted pieces are marked with a '~'.
+
+	writeFEN(board: ChessBoard, fields: string[])
+	{
+		let pockets = ''
+
+		for (const colour of [ Colour.White, Colour.Black ])
+		{
+			for (const type of POCKET_PIECE_TYPES)
+			{
+				pockets += new ChessPiece(type, colour).toString()
+					.repeat(this.pocket(board, colour)[type])
+			}
+		}
+
+		fields[0] = `${ board.placementFEN(true) }[${ pockets }]`
+	}
+}
+
+/**
+ * Horde: White has 36 pawns and no king, and Black wins by capturing
+ * them all.
+ */
+export class HordeRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Horde
+
+	// White fills the first four ranks with pawns, and has four more on
+	// the fifth. Only Black can castle.
+
+	setUp(board: ChessBoard)
+	{
+		board.whiteCastleShort = false
+		board.whiteCastleLong = false
+
+		for (let y = 0; y < 4; y++)
+		{
+			for (let x = 0; x < board.width; x++)
+			{
+				board.setAt(x, y, new ChessPiece(ChessPieceType.Pawn, Colour.White))
+			}
+		}
+
+		for (const coord of [ 'b5', 'c5', 'f5', 'g5' ])
+		{
+			board.set(coord, ChessPieceType.Pawn, Colour.White)
+		}
+
+		this.setUpBlack(board)
+	}
+
+	// Pawns on the first rank may move two squares too.
+
+	canDoublePush(board: ChessBoard, colour: Colour, y: number)
+	{
+		return super.canDoublePush(board, colour, y)
+			|| y == (colour == Colour.White ? 0 : board.height - 1)
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		if (board.countPieces(Colour.White) == 0)
+		{
+			return { winner: Colour.Black, termination: Termination.AllPiecesCaptured }
+		}
+
+		return null
+	}
+
+	// Black can always capture the horde.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * Racing Kings: checks are not allowed, and the first king to reach the
+ * eighth rank wins. If White gets there first, Black may still equalise
+ * with its next move.
+ */
+export class RacingKingsRules extends StandardRules
+{
+	readonly variant: Variant = Variant.RacingKings
+
+	// Both armies start side by side on the first two ranks, Black on the
+	// queen side, without pawns or castling.
+
+	setUp(board: ChessBoard)
+	{
+		board.whiteCastleShort = false
+		board.whiteCastleLong = false
+
+		board.blackCastleShort = false
+		board.blackCastleLong = false
+
+		board.set('a1', ChessPieceType.Queen, Colour.Black)
+		board.set('b1', ChessPieceType.Rook, Colour.Black)
+		board.set('c1', ChessPieceType.Bishop, Colour.Black)
+		board.set('d1', ChessPieceType.Knight, Colour.Black)
+		board.set('a2', ChessPieceType.King, Colour.Black)
+		board.set('b2', ChessPieceType.Rook, Colour.Black)
+		board.set('c2', ChessPieceType.Bishop, Colour.Black)
+		board.set('d2', ChessPieceType.Knight, Colour.Black)
+
+		board.set('e1', ChessPieceType.Knight, Colour.White)
+		board.set('f1', ChessPieceType.Bishop, Colour.White)
+		board.set('g1', ChessPieceType.Rook, Colour.White)
+		board.set('h1', ChessPieceType.Queen, Colour.White)
+		board.set('e2', ChessPieceType.Knight, Colour.White)
+		board.set('f2', ChessPieceType.Bishop, Colour.White)
+		board.set('g2', ChessPieceType.Rook, Colour.White)
+		board.set('h2', ChessPieceType.King, Colour.White)
+	}
+
+	// Any move can give check.
+
+	checkEveryMove()
+	{
+		return true
+	}
+
+	isLegal(board: ChessBoard, from: Square, to: Square)
+	{
+		return super.isLegal(board, from, to) && !board.givesCheck(from, to)
+	}
+
+	validateMove(board: ChessBoard, from: Square, to: Square, promotion: ChessPieceType)
+	{
+		if (board.givesCheck(from, to))
+		{
+			throw new IllegalMoveError(IllegalMoveReason.GivesCheck,
+				new Move(from, to, promotion).toString(),
+				'giving check is not allowed in Racing Kings')
+		}
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		const whiteHome = board.kingIndex(Colour.White) >> 4 == board.height - 1
+		const blackHome = board.kingIndex(Colour.Black) >> 4 == board.height - 1
+
+		if (whiteHome && blackHome)
+		{
+			return { winner: null, termination: Termination.BothEighthRank }
+		}
+
+		if (blackHome)
+		{
+			return { winner: Colour.Black, termination: Termination.EighthRank }
+		}
+
+		// Once the white king gets there, Black has one move left to
+		// equalise with its own king.
+
+		const blackCanEqualise = () => board.turn == Colour.Black
+			&& board.legalMoves().some(move => move.to.y == board.height - 1
+				&& board.pieceAt(move.from.x, move.from.y).type == ChessPieceType.King)
+
+		if (whiteHome && !blackCanEqualise())
+		{
+			return { winner: Colour.White, termination: Termination.EighthRank }
+		}
+
+		return null
+	}
+
+	// Kings race without mating.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * Fog of war: there is no check, kings may move into attack and castle
+ * through it, and capturing the enemy king wins.
+ * What each side sees is up to `ChessBoard.visibleSquares()`.
+ */
+export class FogOfWarRules extends StandardRules
+{
+	readonly variant: Variant = Variant.FogOfWar
+
+	// On a view made by `ChessBoard.view()`, the side whose pieces the
+	// view may hide, and whether its king is hidden. Its missing king and
+	// running out of the moves the view shows do not end the game.
+	hiddenSide: Colour = null
+	kingHidden = false
+
+	canBeChecked(board: ChessBoard, colour: Colour)
+	{
+		return false
+	}
+
+	castlingSquareAttacked(board: ChessBoard, square: Square, enemy: Colour)
+	{
+		return false
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		const captured = (colour: Colour) => board.kingIndex(colour) == -1
+			&& !(this.kingHidden && colour == this.hiddenSide)
+
+		if (captured(Colour.White))
+		{
+			return { winner: Colour.Black, termination: Termination.KingCaptured }
+		}
+
+		if (captured(Colour.Black))
+		{
+			return { winner: Colour.White, termination: Termination.KingCaptured }
+		}
+
+		return null
+	}
+
+	noMovesOutcome(board: ChessBoard): GameOutcome
+	{
+		return board.turn == this.hiddenSide ? null : super.noMovesOutcome(board)
+	}
+
+	// Bare kings can still walk into each other.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * Duck chess: every move is followed by moving the duck, a neutral
+ * blocker, to another empty square. There is no check, capturing the
+ * enemy king wins, and a player who can not move wins as well.
+ */
+export class DuckRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Duck
+
+	canBeChecked(board: ChessBoard, colour: Colour)
+	{
+		return false
+	}
+
+	castlingSquareAttacked(board: ChessBoard, square: Square, enemy: Colour)
+	{
+		return false
+	}
+
+	filterMoves(board: ChessBoard, moves: Move[])
+	{
+		return moves.flatMap(move => board.duckSquares(move.from, move.to).map(duck =>
+		{
+			const withDuck = new Move(move.from, move.to, move.promotion, duck)
+
+			withDuck.capture = move.capture
+			withDuck.castle = move.castle
+			withDuck.enPassant = move.enPassant
+
+			return withDuck
+		}))
+	}
+
+	hasDuck()
+	{
+		return true
+	}
+
+	// The duck moves last, onto a square the piece left empty.
+
+	afterMove(board: ChessBoard, move: Move, capturedPiece: ChessPiece,
+		changedSquares: Square[])
+	{
+		const duckFrom = board.duckIndex()
+
+		if (duckFrom != -1)
+		{
+			board.setAt(duckFrom & 15, duckFrom >> 4, null)
+
+			changedSquares.push(new Square(duckFrom & 15, duckFrom >> 4))
+		}
+
+		board.setAt(move.duck.x, move.duck.y, new ChessPiece(ChessPieceType.Duck, null))
+
+		changedSquares.push(move.duck.clone())
+	}
+
+	outcome(board: ChessBoard): GameOutcome
+	{
+		if (board.kingIndex(Colour.White) == -1)
+		{
+			return { winner: Colour.Black, termination: Termination.KingCaptured }
+		}
+
+		if (board.kingIndex(Colour.Black) == -1)
+		{
+			return { winner: Colour.White, termination: Termination.KingCaptured }
+		}
+
+		return null
+	}
+
+	noMovesOutcome(board: ChessBoard): GameOutcome
+	{
+		return { winner: board.turn, termination: Termination.Stalemate }
+	}
+
+	// Bare kings can still walk into each other.
+
+	insufficientMaterial(board: ChessBoard)
+	{
+		return false
+	}
+}
+
+/**
+ * Capablanca chess: played on a 10x8 board, with an archbishop, which
+ * moves like a bishop or a knight, and a chancellor, which moves like
+ * a rook or a knight, for each side. Pawns may promote to them as well.
+ * The king castles to the c- or i-file.
+ */
+export class CapablancaRules extends StandardRules
+{
+	readonly variant: Variant = Variant.Capablanca
+
+	readonly width: number = 10
+
+	// The pieces of the back rank, from the a- to the j-file.
+	readonly backRank = [
+		ChessPieceType.Rook,
+		ChessPieceType.Knight,
+		ChessPieceType.Archbishop,
+		ChessPieceType.Bishop,
+		ChessPieceType.Queen,
+		ChessPieceType.King,
+		ChessPieceType.Bishop,
+		ChessPieceType.Chancellor,
+		ChessPieceType.Knight,
+		ChessPieceType.Rook
+	]
+
+	setUp(board: ChessBoard)
+	{
+		for (let x = 0; x < board.width; x++)
+		{
+			board.setAt(x, 0, new ChessPiece(this.backRank[x], Colour.White))
+			board.setAt(x, 1, new ChessPiece(ChessPieceType.Pawn, Colour.White))
+			board.setAt(x, board.height - 2, new ChessPiece(ChessPieceType.Pawn, Colour.Black))
+			board.setAt(x, board.height - 1, new ChessPiece(this.backRank[x], Colour.Black))
+		}
+	}
+
+	promotionTypes()
+	{
+		return [
+			...super.promotionTypes(),
+			ChessPieceType.Archbishop,
+			ChessPieceType.Chancellor
+		]
+	}
+}
+
+/**
+ * Gothic chess: Capablanca chess with the pieces of the back rank
+ * rearranged, so no pawn starts undefended.
+ */
+export class GothicRules extends CapablancaRules
+{
+	readonly variant: Variant = Variant.Gothic
+
+	readonly backRank = [
+		ChessPieceType.Rook,
+		ChessPieceType.Knight,
+		ChessPieceType.Bishop,
+		ChessPieceType.Queen,
+		ChessPieceType.Chancellor,
+		ChessPieceType.King,
+		ChessPieceType.Archbishop,
+		ChessPieceType.Bishop,
+		ChessPieceType.Knight,
+		ChessPieceType.Rook
+	]
+}
+
+/**
+ * Returns the rules of a variant.
+ */
+export const variantRules = (variant: Variant): VariantRules =>
+{
+	switch (variant)
+	{
+		case Variant.Antichess:
+		{
+			return new AntichessRules()
+		}
+
+		case Variant.ThreeCheck:
+		{
+			return new ThreeCheckRules()
+		}
+
+		case Variant.KingOfTheHill:
+		{
+			return new KingOfTheHillRules()
+		}
+
+		case Variant.Atomic:
+		{
+			return new AtomicRules()
+		}
+
+		case Variant.Crazyhouse:
+		{
+			return new CrazyhouseRules()
+		}
+
+		case Variant.Horde:
+		{
+			return new HordeRules()
+		}
+
+		case Variant.RacingKings:
+		{
+			return new RacingKingsRules()
+		}
+
+		case Variant.FogOfWar:
+		{
+			return new FogOfWarRules()
+		}
+
+		case Variant.Duck:
+		{
+			return new DuckRules()
+		}
+
+		case Variant.Capablanca:
+		{
+			return new CapablancaRules()
+		}
+
+		case Variant.Gothic:
+		{
+			return new GothicRules()
+		}
+	}
+
+	return new StandardRules()
+}